@@ -1,18 +1,26 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
+import { Routes, Route } from 'react-router-dom';
 import Dashboard from './components/Dashboard';
+import AdminPortal from './components/AdminPortal';
+import RealtimeProvider from './components/RealtimeProvider';
 import Header from './components/Header';
 import SettingsModal from './components/SettingsModal';
 import DotGrid from './components/DotGrid';
 import SignupPage from './components/SignupPage';
 import { MinerConfig } from './types';
 import { useMiner } from './hooks/useMiner';
+import { useResourceGovernor } from './hooks/useResourceGovernor';
+import { useRewardSchedule } from './hooks/useRewardSchedule';
+import { useRealtime } from './hooks/useRealtime';
 import { WalletData, loadWalletFromStorage, clearWalletFromStorage } from './utils/solanaWallet';
+import { setSessionWallet } from './utils/session';
 
-const App: React.FC = () => {
+const MinerApp: React.FC = () => {
   const [wallet, setWallet] = useState<WalletData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const realtime = useRealtime();
 
   // Check for existing wallet on mount
   useEffect(() => {
@@ -49,15 +57,18 @@ const App: React.FC = () => {
     payoutAddress: ''
   });
 
-  // Update payout address when wallet is set
+  // Update payout address and server session when wallet is set; the socket is reopened
+  // so the server binds it to the new wallet (or to none after logout)
   useEffect(() => {
+    setSessionWallet(wallet);
+    realtime.reconnect();
     if (wallet) {
       setConfig(prev => ({
         ...prev,
         payoutAddress: wallet.publicKey
       }));
     }
-  }, [wallet]);
+  }, [wallet, realtime]);
 
   const handleWalletGenerated = useCallback((newWallet: WalletData) => {
     setWallet(newWallet);
@@ -71,18 +82,29 @@ const App: React.FC = () => {
     setConfig(prev => ({ ...prev, payoutAddress: '' }));
   }, []);
 
+  const rewardSchedule = useRewardSchedule();
+
+  const governor = useResourceGovernor();
+
   const {
     status,
+    throttleReason,
+    isCaptchaMining,
     stats,
     history,
-    verifyCaptcha,
-    onSolveSuccess,
-    onDistanceMilestone,
+    requestCaptcha,
+    solveCaptcha,
+    startRun,
+    startDailyRun,
+    finishRun,
+    loadGhost,
     toggleMining,
     toggleTabMining,
+    hashingConsent,
+    setHashingConsent,
     requestWithdrawal,
-    addPendingBalance
-  } = useMiner(config);
+    redeemCode
+  } = useMiner(config, rewardSchedule, governor);
 
   // Show loading state
   if (isLoading) {
@@ -122,16 +144,26 @@ const App: React.FC = () => {
         <main className="flex-1 relative">
           <Dashboard
             status={status}
+            throttleReason={throttleReason}
+            isCaptchaMining={isCaptchaMining}
             stats={stats}
             config={config}
+            rewardSchedule={rewardSchedule}
             history={history}
             onToggle={toggleMining}
             onToggleTab={toggleTabMining}
+            hashingConsent={hashingConsent}
+            onHashingConsentChange={setHashingConsent}
             onConfigChange={setConfig}
-            onVerify={verifyCaptcha}
-            onSuccess={onSolveSuccess}
-            onMilestone={onDistanceMilestone}
+            onRequestCaptcha={requestCaptcha}
+            onSolveCaptcha={solveCaptcha}
+            onRunnerFrame={governor.reportFrame}
+            onRunStart={startRun}
+            onDailyStart={startDailyRun}
+            onRunEnd={finishRun}
+            onLoadGhost={loadGhost}
             onRequestWithdrawal={requestWithdrawal}
+            onRedeemCode={redeemCode}
             onLogout={handleLogout}
             onSettingsClick={() => setIsSettingsOpen(true)}
           />
@@ -141,4 +173,11 @@ const App: React.FC = () => {
   );
 };
 
+const App: React.FC = () => (
+  <Routes>
+    <Route path="/admin" element={<AdminPortal />} />
+    <Route path="*" element={<RealtimeProvider><MinerApp /></RealtimeProvider>} />
+  </Routes>
+);
+
 export default App;
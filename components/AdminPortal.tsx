@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react';
+import AdminView from './AdminView';
+import { useAdminTreasury } from '../hooks/useAdminTreasury';
+
+const ADMIN_KEY_STORAGE = 'molt_runner_admin_key';
+
+/**
+ * /admin route: admin-key login in front of the treasury portal
+ * The key only lives in sessionStorage and is sent as X-Admin-Key
+ */
+const AdminPortal: React.FC = () => {
+    const [adminKey, setAdminKey] = useState<string | null>(() => sessionStorage.getItem(ADMIN_KEY_STORAGE));
+    const [keyInput, setKeyInput] = useState('');
+    const treasury = useAdminTreasury(adminKey);
+
+    // A rejected key sends the operator back to the login form
+    useEffect(() => {
+        if (treasury.isUnauthorized) {
+            sessionStorage.removeItem(ADMIN_KEY_STORAGE);
+            setAdminKey(null);
+        }
+    }, [treasury.isUnauthorized]);
+
+    const handleLogin = (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = keyInput.trim();
+        if (!key) return;
+        sessionStorage.setItem(ADMIN_KEY_STORAGE, key);
+        setAdminKey(key);
+        setKeyInput('');
+    };
+
+    const handleLogout = () => {
+        sessionStorage.removeItem(ADMIN_KEY_STORAGE);
+        setAdminKey(null);
+    };
+
+    return (
+        <div className="min-h-screen w-screen text-white p-6" style={{ background: 'linear-gradient(145deg, #000000, #1a1a1a, #0a0a0a)' }}>
+            <div className="max-w-5xl mx-auto pt-12">
+                {adminKey ? (
+                    <AdminView
+                        payouts={treasury.payouts}
+                        awaitingApproval={treasury.awaitingApproval}
+                        treasuryBalance={treasury.treasuryBalance}
+                        volume24hSOL={treasury.volume24hSOL}
+                        error={treasury.error}
+                        onAction={treasury.actOnPayout}
+                        onLogout={handleLogout}
+                    />
+                ) : (
+                    <form
+                        onSubmit={handleLogin}
+                        className="max-w-md mx-auto bg-zinc-900/90 backdrop-blur-xl rounded-3xl border border-zinc-800 shadow-2xl p-6 space-y-4"
+                    >
+                        <div>
+                            <h2 className="text-2xl font-bold text-white mb-1">Treasury Admin</h2>
+                            <p className="text-white text-sm">Enter the server's admin key to manage payouts</p>
+                        </div>
+                        {treasury.isUnauthorized && (
+                            <p className="text-xs text-red-400">That admin key was rejected.</p>
+                        )}
+                        <input
+                            type="password"
+                            value={keyInput}
+                            autoComplete="off"
+                            onChange={(e) => setKeyInput(e.target.value)}
+                            placeholder="Admin key"
+                            className="w-full bg-black/40 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-white font-mono focus:border-zinc-700 outline-none"
+                        />
+                        <button type="submit" disabled={!keyInput.trim()} className="neo-btn neo-btn-primary w-full">
+                            Unlock
+                        </button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AdminPortal;
@@ -1,37 +1,91 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { PayoutRecord } from '../types';
+import { AdminPayoutAction } from '../hooks/useAdminTreasury';
 
 interface AdminViewProps {
-  history: PayoutRecord[];
-  onAction: (id: string, action: 'completed' | 'failed') => void;
+  payouts: PayoutRecord[];
+  awaitingApproval: number;
+  treasuryBalance: number | null;
+  volume24hSOL: number;
+  error?: string | null;
+  onAction: (id: string, action: AdminPayoutAction) => Promise<void>;
+  onLogout?: () => void;
 }
 
-const AdminView: React.FC<AdminViewProps> = ({ history, onAction }) => {
-  const pending = history.filter(p => p.status === 'pending');
+type QueueFilter = 'held' | 'in_flight' | 'all';
+
+const IN_FLIGHT = ['requested', 'signed', 'broadcast', 'confirmed'];
+
+const AdminView: React.FC<AdminViewProps> = ({ payouts, awaitingApproval, treasuryBalance, volume24hSOL, error, onAction, onLogout }) => {
+  const [filter, setFilter] = useState<QueueFilter>('held');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const visible = payouts.filter(p => {
+    if (filter === 'held') return p.status === 'held';
+    if (filter === 'in_flight') return IN_FLIGHT.includes(p.status);
+    return true;
+  }).slice(0, 100);
+
+  const handleAction = async (id: string, action: AdminPayoutAction) => {
+    setBusyId(id);
+    try {
+      await onAction(id, action);
+    } finally {
+      setBusyId(null);
+    }
+  };
 
   return (
     <div className="bg-zinc-900/50 border border-zinc-800 rounded-2xl overflow-hidden animate-in fade-in duration-500 text-white">
-      <div className="p-6 border-b border-zinc-800 bg-zinc-950">
-        <h3 className="text-xl font-bold">Admin Treasury Portal</h3>
-        <p className="text-sm">Manage pending payout requests and broadcast to Solana.</p>
+      <div className="p-6 border-b border-zinc-800 bg-zinc-950 flex items-start justify-between">
+        <div>
+          <h3 className="text-xl font-bold">Admin Treasury Portal</h3>
+          <p className="text-sm">Manage pending payout requests and broadcast to Solana.</p>
+        </div>
+        {onLogout && (
+          <button
+            onClick={onLogout}
+            className="px-3 py-1 bg-zinc-800 hover:bg-zinc-700 text-white text-[10px] font-bold rounded uppercase transition-colors"
+          >
+            Lock
+          </button>
+        )}
       </div>
 
       <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-4 bg-zinc-900/30 border-b border-zinc-800">
         <div className="p-4 bg-zinc-950 border border-zinc-800 rounded-xl">
-          <p className="text-[10px] uppercase font-bold mb-1">Total Pending</p>
-          <p className="text-2xl font-bold">{pending.length}</p>
+          <p className="text-[10px] uppercase font-bold mb-1">Awaiting Approval</p>
+          <p className="text-2xl font-bold">{awaitingApproval}</p>
         </div>
         <div className="p-4 bg-zinc-950 border border-zinc-800 rounded-xl">
           <p className="text-[10px] uppercase font-bold mb-1">Treasury SOL</p>
-          <p className="text-2xl font-bold text-purple-400">14.25 SOL</p>
+          <p className="text-2xl font-bold text-purple-400">
+            {treasuryBalance === null ? '—' : `${treasuryBalance.toFixed(2)} SOL`}
+          </p>
         </div>
         <div className="p-4 bg-zinc-950 border border-zinc-800 rounded-xl">
           <p className="text-[10px] uppercase font-bold mb-1">Volume 24h</p>
-          <p className="text-2xl font-bold text-green-400">2.14 SOL</p>
+          <p className="text-2xl font-bold text-green-400">{volume24hSOL.toFixed(2)} SOL</p>
         </div>
       </div>
 
+      {error && (
+        <div className="px-6 py-3 bg-red-500/10 border-b border-red-500/20 text-xs text-red-400">{error}</div>
+      )}
+
+      <div className="px-6 py-3 flex gap-2 border-b border-zinc-800">
+        {([['held', 'Awaiting Approval'], ['in_flight', 'In Flight'], ['all', 'All']] as [QueueFilter, string][]).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-3 py-1 text-[10px] font-bold rounded uppercase transition-colors ${filter === value ? 'bg-white text-black' : 'bg-zinc-800 text-white hover:bg-zinc-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       <div className="overflow-x-auto">
         <table className="w-full text-left">
           <thead className="bg-zinc-950 text-[10px] font-bold uppercase tracking-widest text-white">
@@ -43,12 +97,12 @@ const AdminView: React.FC<AdminViewProps> = ({ history, onAction }) => {
             </tr>
           </thead>
           <tbody className="divide-y divide-zinc-800">
-            {pending.length === 0 ? (
+            {visible.length === 0 ? (
               <tr>
                 <td colSpan={4} className="px-6 py-12 text-center text-white italic">No pending requests found.</td>
               </tr>
             ) : (
-              pending.map((item) => (
+              visible.map((item) => (
                 <tr key={item.id} className="hover:bg-zinc-800/20 transition-colors">
                   <td className="px-6 py-4 text-xs mono text-white">#{item.id}</td>
                   <td className="px-6 py-4">
@@ -58,23 +112,43 @@ const AdminView: React.FC<AdminViewProps> = ({ history, onAction }) => {
                     </div>
                   </td>
                   <td className="px-6 py-4">
-                    <span className="text-sm font-bold text-purple-400">{item.amountSOL.toFixed(4)} SOL</span>
+                    <div className="flex flex-col">
+                      <span className="text-sm font-bold text-purple-400">{item.amountSOL.toFixed(4)} SOL</span>
+                      {item.holdReason && (
+                        <span className="text-[10px] text-yellow-400">{item.holdReason}</span>
+                      )}
+                    </div>
                   </td>
                   <td className="px-6 py-4">
-                    <div className="flex gap-2">
-                      <button 
-                        onClick={() => onAction(item.id, 'completed')}
-                        className="px-3 py-1 bg-green-600 hover:bg-green-500 text-white text-[10px] font-bold rounded uppercase transition-colors"
-                      >
-                        Approve
-                      </button>
-                      <button 
-                        onClick={() => onAction(item.id, 'failed')}
-                        className="px-3 py-1 bg-zinc-800 hover:bg-red-600 text-white text-[10px] font-bold rounded uppercase transition-colors"
+                    {item.status === 'held' ? (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleAction(item.id, 'approve')}
+                          disabled={busyId === item.id}
+                          className="px-3 py-1 bg-green-600 hover:bg-green-500 disabled:opacity-50 text-white text-[10px] font-bold rounded uppercase transition-colors"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleAction(item.id, 'reject')}
+                          disabled={busyId === item.id}
+                          className="px-3 py-1 bg-zinc-800 hover:bg-red-600 disabled:opacity-50 text-white text-[10px] font-bold rounded uppercase transition-colors"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    ) : item.explorerUrl ? (
+                      <a
+                        href={item.explorerUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-[10px] font-bold uppercase underline decoration-dotted"
                       >
-                        Reject
-                      </button>
-                    </div>
+                        {item.status}
+                      </a>
+                    ) : (
+                      <span className="text-[10px] font-bold uppercase" title={item.error}>{item.status}</span>
+                    )}
                   </td>
                 </tr>
               ))
@@ -1,29 +1,64 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { CaptchaDifficulty } from '../types';
+import { CaptchaDifficulty, RunTicket, RunResult, GhostRun, GhostSource } from '../types';
+import { createInitialState, step, getDistance, isInDustStorm, EngineEvent, EngineState, Obstacle, Token, PowerUp, PowerUpKind, DustStorm, GAME_CONFIG, CHARACTER_SIZE, TICK_MS } from '../shared/runner/engine';
+import { randomSeed } from '../shared/runner/prng';
+import { RunLog, RunTelemetry } from '../shared/runner/replay';
+import { getMilestoneReward, getTokenReward, MILESTONE_INTERVAL, RewardSchedule } from '../shared/rewards';
 
 interface CaptchaChallengeProps {
-    onVerify: (solution: string, expected: string) => Promise<{ success: boolean; error?: string }>;
-    onSuccess: (difficulty: CaptchaDifficulty) => void;
     onStart: () => void;
-    onMilestone: (distance: number) => void;
+    onMilestone?: (distance: number) => void;
+    onRunStart?: (difficulty: CaptchaDifficulty) => Promise<RunTicket | null>;
+    onDailyStart?: () => Promise<RunTicket | null>;
+    onRunEnd?: (runId: string, log: RunLog) => Promise<RunResult>;
+    onLoadGhost?: (source: GhostSource) => Promise<GhostRun | null>;
     onGameOver?: (score: number) => void;
     onScoreUpdate?: (score: number) => void;
     onSessionRewardUpdate?: (reward: number) => void;
+    // Duration of every frame drawn during a run, for the resource governor
+    onFrame?: (frameMs: number) => void;
+    rewardSchedule: RewardSchedule;
     isMining: boolean;
 }
 
-const GAME_CONFIG = {
-    [CaptchaDifficulty.EASY]: { speed: 4, gravity: 0.6, jumpStrength: -10, gapMin: 150, gapMax: 300, winScore: 500 },
-    [CaptchaDifficulty.MEDIUM]: { speed: 6, gravity: 0.6, jumpStrength: -11, gapMin: 120, gapMax: 250, winScore: 1000 },
-    [CaptchaDifficulty.HARD]: { speed: 6, gravity: 0.7, jumpStrength: -12, gapMin: 100, gapMax: 220, winScore: 2000 },
+// Longest frame gap simulated in one go (e.g. after the tab was in the background)
+const MAX_FRAME_MS = 100;
+
+const DIFFICULTY_STORAGE = 'molt_runner_difficulty';
+
+const POWER_UP_STYLES: Record<PowerUpKind, { icon: string; color: string; label: string }> = {
+    shield: { icon: '♥', color: '#f472b6', label: 'SHIELD' },
+    magnet: { icon: '🧲', color: '#facc15', label: 'MAGNET' },
+    slowtime: { icon: '⏳', color: '#38bdf8', label: 'SLOW TIME' },
 };
 
-const CHARACTER_SIZE = 120;
-const OBSTACLE_WIDTH = 25;
-const OBSTACLE_HEIGHT = 45;
+const GHOST_OPTIONS: [GhostSource | null, string][] = [
+    [null, 'Off'],
+    ['personal', 'My best'],
+    ['leader', '#1']
+];
+
+// Hearts from the particle pool that circle a shielded player
+const SHIELD_HEARTS = 6;
+
+const DIFFICULTY_OPTIONS: [CaptchaDifficulty, string][] = [
+    [CaptchaDifficulty.EASY, 'Easy'],
+    [CaptchaDifficulty.MEDIUM, 'Medium'],
+    [CaptchaDifficulty.HARD, 'Hard']
+];
 
-const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess, onStart, onMilestone, onGameOver, onScoreUpdate, onSessionRewardUpdate, isMining }) => {
-    const [difficulty, setDifficulty] = useState<CaptchaDifficulty>(CaptchaDifficulty.HARD);
+const loadDifficulty = () => {
+    const saved = localStorage.getItem(DIFFICULTY_STORAGE);
+    return DIFFICULTY_OPTIONS.some(([value]) => value === saved) ? saved as CaptchaDifficulty : CaptchaDifficulty.HARD;
+};
+
+const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onStart, onMilestone, onRunStart, onDailyStart, onRunEnd, onLoadGhost, onGameOver, onScoreUpdate, onSessionRewardUpdate, onFrame, rewardSchedule, isMining }) => {
+    const [difficulty, setDifficulty] = useState<CaptchaDifficulty>(loadDifficulty);
+    // Daily runs use the server's seed and difficulty for the day instead of the picked one
+    const [isDaily, setIsDaily] = useState(false);
+    const [ghostSource, setGhostSource] = useState<GhostSource | null>(null);
+    const [ghost, setGhost] = useState<GhostRun | null>(null);
+    const [ghostError, setGhostError] = useState<string | null>(null);
     const [isExternalMining, setIsExternalMining] = useState(false); // Replaces 'loading' for UI state
     const [gameState, setGameState] = useState<'IDLE' | 'PLAYING' | 'GAME_OVER' | 'VICTORY'>('IDLE');
     const [score, setScore] = useState(0);
@@ -71,25 +106,37 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const requestRef = useRef<number>();
 
-    // Game State Refs (for Loop)
-    const characterRef = useRef({ x: 200, y: 0, dy: 0, grounded: true, targetX: 200 });
-    const chaserRef = useRef({ x: -200, y: 0, dy: 0, grounded: true, targetX: -200 });
-    const hitCountRef = useRef(0);
-    const isInvulnerableRef = useRef(false);
+    // Simulation state lives in the engine; the canvas only draws it
+    const engineRef = useRef<EngineState>(createInitialState(0, CaptchaDifficulty.HARD));
+    const pendingJumpRef = useRef(false);
+    const accumulatorRef = useRef(0);
     const chaserSpriteRef = useRef<HTMLImageElement | null>(null);
     const characterSpriteRef = useRef<HTMLImageElement | null>(null);
     const flagBgRef = useRef<HTMLImageElement | null>(null);
-    const obstaclesRef = useRef<{ x: number; width: number; height: number; type: 'duststorm'; y: number; warned?: boolean }[]>([]);
-    const tokensRef = useRef<{ x: number; y: number; width: number; height: number; collected: boolean; floatOffset: number }[]>([]);
     const tokenSpriteRef = useRef<HTMLImageElement | null>(null);
-    const scoreRef = useRef(0);
-    const lastMilestoneRef = useRef(0);
-    const speedRef = useRef(0);
-    const configRef = useRef(GAME_CONFIG[CaptchaDifficulty.HARD]);
+    // Server-issued run id; empty for practice runs that are not submitted
+    const runIdRef = useRef('');
+    // Daily runs are only paid from the day's pool, so they show no per-token or milestone SOL
+    const isDailyRunRef = useRef(false);
+    // Ticks at which jump was pressed, sent with the run for replay verification
+    const jumpsRef = useRef<number[]>([]);
+    // Proof-of-human signals the server cannot get from the replay
+    const telemetryRef = useRef<RunTelemetry>({ untrustedInputs: 0 });
+    const isStartingRef = useRef(false);
+    // Ghost being raced this run: its own engine, stepped in lockstep with the live one
+    const ghostRef = useRef<GhostRun | null>(null);
+    const ghostEngineRef = useRef<EngineState | null>(null);
+    const ghostJumpsRef = useRef<Set<number>>(new Set());
+    const isMiningRef = useRef(isMining);
+    isMiningRef.current = isMining;
+    const onFrameRef = useRef(onFrame);
+    onFrameRef.current = onFrame;
+    // Read by the game loop without restarting it when the schedule refreshes
+    const rewardScheduleRef = useRef(rewardSchedule);
+    rewardScheduleRef.current = rewardSchedule;
 
     // Dust storm effect state
     const dustStormRef = useRef({ active: false, opacity: 0, particles: [] as { x: number; y: number; speed: number; size: number }[] });
-    const lastDustSpawnRef = useRef(0);
     const heartsRef = useRef<{ x: number; y: number; speed: number; size: number; opacity: number; phase: number }[]>([]);
 
     // Animation state
@@ -153,28 +200,86 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
     // Frame Rate Independence
     const lastFrameTimeRef = useRef<number>(0);
 
-    const initGame = useCallback(() => {
-        configRef.current = GAME_CONFIG[difficulty];
-        characterRef.current = { x: 200, y: 150 - CHARACTER_SIZE, dy: 0, grounded: true, targetX: 200 };
-        chaserRef.current = { x: -200, y: 150 - CHARACTER_SIZE, dy: 0, grounded: true, targetX: -200 };
-        hitCountRef.current = 0;
-        isInvulnerableRef.current = false;
-        obstaclesRef.current = [];
-        tokensRef.current = [];
-        scoreRef.current = 0;
-        lastMilestoneRef.current = 0;
-        speedRef.current = configRef.current.speed;
+    // Sends the finished run to the server, which replays it before crediting anything
+    const submitRun = useCallback(() => {
+        const runId = runIdRef.current;
+        runIdRef.current = '';
+        if (!runId || !onRunEnd) return;
+
+        const state = engineRef.current;
+        onRunEnd(runId, {
+            ticks: state.tick,
+            jumps: jumpsRef.current,
+            distance: getDistance(state.score),
+            telemetry: telemetryRef.current
+        }).then(result => {
+            if (!result.verified) {
+                setRewardMessage('RUN NOT VERIFIED');
+            } else if (result.held) {
+                setRewardMessage('REWARDS HELD FOR REVIEW');
+            } else {
+                return;
+            }
+            setTimeout(() => setRewardMessage(null), 3000);
+        });
+    }, [onRunEnd]);
+
+    const initGame = useCallback(async () => {
+        if (isStartingRef.current) return;
+        isStartingRef.current = true;
+        // A ghost's inputs are a known way through its seed, so ghost races are practice runs
+        let ticket: RunTicket | null = null;
+        if (!ghost) {
+            if (isDaily) ticket = onDailyStart ? await onDailyStart() : null;
+            else ticket = onRunStart ? await onRunStart(difficulty) : null;
+        }
+        isStartingRef.current = false;
+        if (!isMiningRef.current) return;
+
+        // Without a ticket (offline, signed out) the run is practice: it is not submitted or rewarded
+        if (ghost) {
+            engineRef.current = createInitialState(ghost.seed, ghost.difficulty);
+        } else {
+            engineRef.current = createInitialState(ticket ? ticket.seed : randomSeed(), ticket ? ticket.difficulty : difficulty);
+        }
+        runIdRef.current = ticket ? ticket.runId : '';
+        isDailyRunRef.current = Boolean(ticket && ticket.day);
+        ghostRef.current = ghost;
+        ghostEngineRef.current = ghost ? createInitialState(ghost.seed, ghost.difficulty) : null;
+        ghostJumpsRef.current = new Set(ghost ? ghost.jumps : []);
+        jumpsRef.current = [];
+        telemetryRef.current = { untrustedInputs: 0 };
+        pendingJumpRef.current = false;
+        accumulatorRef.current = 0;
         lastFrameTimeRef.current = performance.now(); // Reset time
         setScore(0);
         setSessionReward(0);
         setGameState('PLAYING');
-    }, [difficulty]);
+    }, [difficulty, isDaily, ghost, onRunStart, onDailyStart]);
+
+    // Fetch the replay for the picked ghost
+    useEffect(() => {
+        setGhost(null);
+        setGhostError(null);
+        if (!ghostSource || !onLoadGhost) return;
+
+        let cancelled = false;
+        onLoadGhost(ghostSource).then(loaded => {
+            if (cancelled) return;
+            setGhost(loaded);
+            if (!loaded) setGhostError('No replay available yet');
+        });
+        return () => { cancelled = true; };
+    }, [ghostSource, onLoadGhost]);
 
     // ... (useEffect for mining/idle stays same)
     useEffect(() => {
         if (isMining && gameState === 'IDLE') {
             initGame();
         } else if (!isMining && gameState !== 'IDLE') {
+            // Stopping mid-run still submits the distance covered so far
+            if (gameState === 'PLAYING') submitRun();
+            engineRef.current = createInitialState(0, difficulty);
             setGameState('IDLE');
         }
     }, [isMining, initGame]);
@@ -184,14 +289,8 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
             if (gameState !== 'VICTORY') initGame();
             return;
         }
-        const p = characterRef.current;
-        if (p.grounded) {
-            // Jump strength does NOT need dt scaling if applied instantaneously as velocity, 
-            // but gravity handling usually implies consistent units. 
-            // Standard approach: Velocity is pixels/frame @ 60fps.
-            p.dy = configRef.current.jumpStrength;
-            p.grounded = false;
-        }
+        // Applied by the engine on the next tick, if the player is on the ground
+        pendingJumpRef.current = true;
     }, [gameState, initGame]);
 
     const keysPressed = useRef<{ [key: string]: boolean }>({});
@@ -205,6 +304,11 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
 
             keysPressed.current[e.code] = true;
 
+            // Key events dispatched by a script are not trusted
+            if (!e.isTrusted && gameState === 'PLAYING') {
+                telemetryRef.current.untrustedInputs += 1;
+            }
+
             if (e.code === 'Space') {
                 e.preventDefault();
                 if (gameState === 'IDLE') {
@@ -237,278 +341,77 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
 
+        const handleEvent = (event: EngineEvent) => {
+            const runDifficulty = engineRef.current.difficulty;
+            if (event.type === 'token') {
+                if (isDailyRunRef.current) return;
+                // Bonus SOL, credited once the run is verified
+                const added = getTokenReward(rewardScheduleRef.current, runDifficulty);
+                setSessionReward(prev => prev + added);
+                setRewardMessage(`+${added.toFixed(4)} SOL`);
+                setTimeout(() => setRewardMessage(null), 1000);
+            } else if (event.type === 'power_up') {
+                setRewardMessage(POWER_UP_STYLES[event.kind].label);
+                setTimeout(() => setRewardMessage(null), 1000);
+            } else if (event.type === 'shield_break') {
+                setRewardMessage('SHIELD BROKEN');
+                setTimeout(() => setRewardMessage(null), 1000);
+            } else if (event.type === 'milestone') {
+                const milestone = event.distance;
+                if (onMilestone) onMilestone(milestone);
+                if (isDailyRunRef.current) return;
+
+                // Sync UI state
+                const added = getMilestoneReward(rewardScheduleRef.current, runDifficulty, milestone);
+                setSessionReward(prev => prev + added);
+                setRewardMessage(`+${added.toFixed(4)} SOL`);
+                setTimeout(() => setRewardMessage(null), 3000);
+            } else if (event.type === 'caught') {
+                setRewardMessage('CAUGHT!');
+                setTimeout(() => setRewardMessage(null), 2000);
+            } else if (event.type === 'game_over') {
+                setGameState('GAME_OVER');
+                submitRun();
+                if (event.score > highScore) setHighScore(Math.floor(event.score));
+                if (onGameOver) onGameOver(event.score);
+            }
+        };
+
         const loop = (timestamp: number) => {
             if (!lastFrameTimeRef.current) lastFrameTimeRef.current = timestamp;
-            const deltaTime = timestamp - lastFrameTimeRef.current;
+            if (gameState === 'PLAYING' && onFrameRef.current) onFrameRef.current(timestamp - lastFrameTimeRef.current);
+            // Cap the gap to avoid a burst of ticks if the tab was inactive
+            const elapsed = Math.min(timestamp - lastFrameTimeRef.current, MAX_FRAME_MS);
             lastFrameTimeRef.current = timestamp;
 
-            // Target 60 FPS (approx 16.67ms per frame)
-            // dtFactor will be ~1.0 for 60hz, ~0.5 for 120hz, ~0.25 for 240hz
-            // We cap dt to avoid huge jumps if tab is inactive
-            const dt = Math.min(deltaTime, 100) / 16.67;
-
             const width = canvas.width;
             const height = canvas.height;
             const groundY = height - 10;
-            const cfg = configRef.current;
-
-            const isPlaying = gameState === 'PLAYING';
-
-            // 1. Dynamic Speed
-            if (isPlaying) {
-                if (speedRef.current < 13) {
-                    speedRef.current += 0.001 * dt; // Scale acceleration
-                }
-            }
-
-            // Update Characters
-            const p = characterRef.current;
-            const c = chaserRef.current;
-
-            if (isPlaying) {
-                // Adjust target positions based on hit count
-                if (hitCountRef.current === 0) {
-                    p.targetX = 200;
-                    c.targetX = -100;
-                } else if (hitCountRef.current === 1) {
-                    p.targetX = 150;
-                    c.targetX = 50;
-                } else {
-                    p.targetX = 150;
-                    c.targetX = 150;
-                }
-
-                // Smoothly move to target X
-                p.x += (p.targetX - p.x) * 0.05 * dt;
-                c.x += (c.targetX - c.x) * 0.05 * dt;
-
-                // Physics (Gravity/Jump)
-                const gravity = cfg.gravity;
-
-                p.dy += gravity * dt;
-                p.y += p.dy * dt;
-
-                c.dy += gravity * dt;
-                c.y += c.dy * dt;
-
-                // Ground Collision
-                if (p.y + CHARACTER_SIZE >= groundY) {
-                    p.y = groundY - CHARACTER_SIZE;
-                    p.dy = 0;
-                    p.grounded = true;
-                }
-                if (c.y + CHARACTER_SIZE >= groundY) {
-                    c.y = groundY - CHARACTER_SIZE;
-                    c.dy = 0;
-                    c.grounded = true;
-                }
-
-                // If Chaser is far back and we are playing, make it jump sometimes or stay on floor
-                if (c.grounded && !p.grounded && Math.random() < 0.05) {
-                    c.dy = cfg.jumpStrength * 0.8;
-                    c.grounded = false;
-                }
-            } else if (gameState === 'IDLE') {
-                p.y = groundY - CHARACTER_SIZE;
-                p.dy = 0;
-                p.grounded = true;
-                c.y = groundY - CHARACTER_SIZE;
-                c.dy = 0;
-                c.grounded = true;
-                c.x = -200;
-            }
-
-            // Move Obstacles
-            if (isPlaying) {
-                obstaclesRef.current.forEach(obs => {
-                    const moveSpeed = speedRef.current;
-                    obs.x -= moveSpeed * dt; // Scale movement
-                });
-                if (obstaclesRef.current.length > 0 && obstaclesRef.current[0].x < -100) {
-                    obstaclesRef.current.shift();
-                }
-            }
-
-            // Move Tokens
-            if (isPlaying) {
-                tokensRef.current.forEach(token => {
-                    const moveSpeed = speedRef.current;
-                    token.x -= moveSpeed * dt;
-                });
-                // Remove off-screen or collected tokens
-                if (tokensRef.current.length > 0 && tokensRef.current[0].x < -50) {
-                    tokensRef.current.shift();
-                }
-                tokensRef.current = tokensRef.current.filter(t => !t.collected && t.x > -100);
-            }
-
-            // Obstacle Spawning relies on distance, which relies on Score.
-            // Score usually increments by speed. 
-            if (isPlaying) {
-                scoreRef.current += speedRef.current * dt; // Scale score increment
-                // The rest of logic uses limits based on scoreRef, so it auto-adjusts.
-
-                const currentDistM = Math.floor(scoreRef.current / 50);
-
-
-                // Mars Dust Storm Spawning logic
-                const lastObs = obstaclesRef.current[obstaclesRef.current.length - 1];
-
-                // Cap the gap so it doesn't get too wide at high speeds
-                const minGap = Math.min(speedRef.current * 40, 450);
-                const variance = Math.random() * 180;
-
-                // Failsafe: If no obstacles, force spawn immediately
-                const shouldSpawn = !lastObs || (width - lastObs.x > minGap + variance);
-
-                if (shouldSpawn) {
-                    const h = Math.floor(Math.random() * 30) + 35;
-                    const mainObsWidth = OBSTACLE_WIDTH + 15;
-                    obstaclesRef.current.push({
-                        x: width,
-                        width: mainObsWidth,
-                        height: h,
-                        type: 'duststorm',
-                        y: groundY - h,
-                        warned: false
-                    });
-
-                    // Add chance for "double" obstacle - requires "big jump"
-                    if (Math.random() < 0.2 && scoreRef.current > 300) { // 20% chance, only after some score
-                        const secondH = Math.floor(Math.random() * 30) + 35;
-                        obstaclesRef.current.push({
-                            x: width + mainObsWidth + 5, // Tiny 5px gap for "joined" look
-                            width: mainObsWidth,
-                            height: secondH,
-                            type: 'duststorm',
-                            y: groundY - secondH,
-                            warned: false
-                        });
-                    }
-                }
-
-            }
-
-            // Token Spawning Logic
-            // Spawn randomly, but ensure not inside an obstacle
-            if (isPlaying && Math.random() < 0.02) { // 2% chance per frame
-                const lastToken = tokensRef.current[tokensRef.current.length - 1];
-                const minTokenGap = 300; // Minimum distance between tokens
-
-                if (!lastToken || (width - lastToken.x > minTokenGap)) {
-                    // Check if we are overlapping an obstacle
-                    const safeToSpawn = !obstaclesRef.current.some(obs => Math.abs(obs.x - width) < 100);
-
-                    if (safeToSpawn) {
-                        const tokenY = groundY - 110 - (Math.random() * 50); // Lowered
-                        tokensRef.current.push({
-                            x: width,
-                            y: tokenY,
-                            width: 80,
-                            height: 80,
-                            collected: false,
-                            floatOffset: Math.random() * Math.PI * 2
-                        });
+            const cfg = GAME_CONFIG[engineRef.current.difficulty];
+
+            // Fixed-timestep simulation: the engine always advances in whole ticks,
+            // so a run plays out the same at 60hz, 144hz or after a dropped frame
+            if (gameState === 'PLAYING') {
+                accumulatorRef.current += elapsed;
+                while (accumulatorRef.current >= TICK_MS && engineRef.current.status === 'PLAYING') {
+                    accumulatorRef.current -= TICK_MS;
+                    if (pendingJumpRef.current) jumpsRef.current.push(engineRef.current.tick);
+                    engineRef.current = step(engineRef.current, { jump: pendingJumpRef.current });
+                    pendingJumpRef.current = false;
+                    engineRef.current.events.forEach(handleEvent);
+
+                    const ghostRun = ghostRef.current;
+                    const ghostState = ghostEngineRef.current;
+                    if (ghostRun && ghostState && ghostState.status === 'PLAYING' && ghostState.tick < ghostRun.ticks) {
+                        ghostEngineRef.current = step(ghostState, { jump: ghostJumpsRef.current.has(ghostState.tick) });
                     }
                 }
+                setScore(Math.floor(engineRef.current.score));
             }
 
-            // Collision Detection
-            if (isPlaying) {
-                const hitMargin = CHARACTER_SIZE * 0.2; // 20% forgiveness
-                const crash = obstaclesRef.current.some(obs => {
-                    const px = p.x + hitMargin;
-                    const py = p.y + hitMargin;
-                    const pw = CHARACTER_SIZE - (hitMargin * 2);
-                    const ph = CHARACTER_SIZE - (hitMargin * 2);
-
-                    // Obstacle Hitbox
-                    let ox = obs.x + (obs.width * 0.1);
-                    let oy = obs.y;
-                    let ow = obs.width * 0.8;
-                    let oh = obs.height;
-
-                    // Iceberg logic: obs.y is already top-left
-                    oy = obs.y;
-
-                    return (
-                        px < ox + ow &&
-                        px + pw > ox &&
-                        py < oy + oh &&
-                        py + ph > oy
-                    );
-                });
-
-                if (crash && !isInvulnerableRef.current) {
-                    hitCountRef.current += 1;
-                    if (hitCountRef.current >= 2) {
-                        setGameState('GAME_OVER');
-                        if (scoreRef.current > highScore) setHighScore(Math.floor(scoreRef.current));
-                        if (onGameOver) onGameOver(scoreRef.current);
-                        return;
-                    } else {
-                        // First hit: player slows down (moves left), chaser gets closer
-                        isInvulnerableRef.current = true;
-                        // Flash player? 
-                        setTimeout(() => {
-                            isInvulnerableRef.current = false;
-                        }, 2000);
-                    }
-                }
-            }
-
-            // Token Collision Detection
-            if (isPlaying) {
-                tokensRef.current.forEach(token => {
-                    if (token.collected) return;
-
-                    const p = characterRef.current;
-                    const hitMargin = 10;
-
-                    if (
-                        p.x + hitMargin < token.x + token.width &&
-                        p.x + CHARACTER_SIZE - hitMargin > token.x &&
-                        p.y + hitMargin < token.y + token.height &&
-                        p.y + CHARACTER_SIZE - hitMargin > token.y
-                    ) {
-                        token.collected = true;
-                        // Award points and SOL
-                        scoreRef.current += 100; // Bonus points
-                        setSessionReward(prev => prev + 0.0001); // Bonus SOL
-                        setRewardMessage('+0.0001 SOL');
-                        setTimeout(() => setRewardMessage(null), 1000);
-                    }
-                });
-            }
-
-            // Update Score
-            if (isPlaying) {
-                scoreRef.current += speedRef.current;
-                setScore(Math.floor(scoreRef.current));
-
-                const distance = Math.floor(scoreRef.current / 50);
-                const milestone = Math.floor(distance / 100) * 100;
-
-                if (milestone > 0 && milestone > lastMilestoneRef.current) {
-                    onMilestone(milestone);
-                    lastMilestoneRef.current = milestone;
-
-                    // Sync UI state
-                    let added = 0;
-                    if (milestone === 100) added = 0.00081;
-                    else if (milestone === 200) added = 0.0011;
-                    else if (milestone === 300) added = 0.0012;
-                    else if (milestone === 400) added = 0.0016;
-                    else if (milestone === 500) added = 0.0032;
-                    else if (milestone > 500) {
-                        added = 0.0016;
-                    }
-                    setSessionReward(prev => prev + added);
-                    setRewardMessage(`+${added.toFixed(4)} SOL`);
-                    setTimeout(() => setRewardMessage(null), 3000);
-                    speedRef.current += 0.5;
-                }
-            }
+            const state = engineRef.current;
+            const p = state.player;
+            const c = state.chaser;
 
             // Drawing
             const drawBackground = () => {
@@ -528,60 +431,139 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
             ctx.textAlign = 'center';
             ctx.fillText('Hitting obstacles makes the jew come closer', width / 2, height / 2 - 40);
 
-            // Draw Obstacles
-            obstaclesRef.current.forEach(obs => {
-                if (obs.type === 'duststorm') {
-                    ctx.save();
-                    ctx.translate(obs.x, groundY);
-
-                    // Draw white obstacles
-                    const rockGradient = ctx.createLinearGradient(0, -obs.height, 0, 0);
-                    rockGradient.addColorStop(0, '#ffffff'); // Pure white
-                    rockGradient.addColorStop(1, '#cccccc'); // Light grey
-                    ctx.fillStyle = rockGradient;
-
-                    // Jagged rock shape
-                    ctx.beginPath();
-                    ctx.moveTo(0, 0);
-                    ctx.lineTo(obs.width * 0.2, -obs.height * 0.6);
-                    ctx.lineTo(obs.width * 0.5, -obs.height);
-                    ctx.lineTo(obs.width * 0.8, -obs.height * 0.7);
-                    ctx.lineTo(obs.width, 0);
-                    ctx.closePath();
-                    ctx.fill();
+            // Draw Entities, each kind with its own look
+            const drawRock = (obs: Obstacle) => {
+                ctx.save();
+                ctx.translate(obs.x, groundY);
+
+                // Draw white obstacles
+                const rockGradient = ctx.createLinearGradient(0, -obs.height, 0, 0);
+                rockGradient.addColorStop(0, '#ffffff'); // Pure white
+                rockGradient.addColorStop(1, '#cccccc'); // Light grey
+                ctx.fillStyle = rockGradient;
+
+                // Jagged rock shape
+                ctx.beginPath();
+                ctx.moveTo(0, 0);
+                ctx.lineTo(obs.width * 0.2, -obs.height * 0.6);
+                ctx.lineTo(obs.width * 0.5, -obs.height);
+                ctx.lineTo(obs.width * 0.8, -obs.height * 0.7);
+                ctx.lineTo(obs.width, 0);
+                ctx.closePath();
+                ctx.fill();
+
+                // Optional: Inner detail for the rock
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+                ctx.lineWidth = 1;
+                ctx.beginPath();
+                ctx.moveTo(obs.width * 0.3, -obs.height * 0.3);
+                ctx.lineTo(obs.width * 0.5, -obs.height * 0.7);
+                ctx.stroke();
 
-                    // Optional: Inner detail for the rock
-                    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-                    ctx.lineWidth = 1;
-                    ctx.beginPath();
-                    ctx.moveTo(obs.width * 0.3, -obs.height * 0.3);
-                    ctx.lineTo(obs.width * 0.5, -obs.height * 0.7);
-                    ctx.stroke();
+                ctx.restore();
+            };
 
-                    ctx.restore();
+            const drawOverhead = (obs: Obstacle) => {
+                const top = groundY + obs.y;
+
+                // Hanging beam with chains up to the top of the screen
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+                ctx.lineWidth = 2;
+                ctx.beginPath();
+                ctx.moveTo(obs.x + obs.width * 0.2, 0);
+                ctx.lineTo(obs.x + obs.width * 0.2, top);
+                ctx.moveTo(obs.x + obs.width * 0.8, 0);
+                ctx.lineTo(obs.x + obs.width * 0.8, top);
+                ctx.stroke();
+
+                const beamGradient = ctx.createLinearGradient(0, top, 0, top + obs.height);
+                beamGradient.addColorStop(0, '#cccccc');
+                beamGradient.addColorStop(1, '#ffffff');
+                ctx.fillStyle = beamGradient;
+                ctx.fillRect(obs.x, top, obs.width, obs.height);
+
+                // Warning stripes along the bottom edge
+                ctx.fillStyle = '#ef4444';
+                for (let x = 0; x < obs.width; x += 20) {
+                    ctx.fillRect(obs.x + x, top + obs.height - 6, 10, 6);
                 }
-            });
-
-            // Draw Tokens
-            tokensRef.current.forEach(token => {
-                if (token.collected) return;
+            };
 
+            const drawToken = (token: Token) => {
+                const tokenY = groundY + token.y;
                 const hoverY = Math.sin(Date.now() / 200 + token.floatOffset) * 5;
 
                 if (tokenSpriteRef.current) {
-                    ctx.drawImage(tokenSpriteRef.current, token.x, token.y + hoverY, token.width, token.height);
+                    ctx.drawImage(tokenSpriteRef.current, token.x, tokenY + hoverY, token.width, token.height);
                 } else {
                     // Fallback
                     ctx.fillStyle = '#FFD700';
                     ctx.beginPath();
-                    ctx.arc(token.x + token.width / 2, token.y + token.height / 2 + hoverY, token.width / 2, 0, Math.PI * 2);
+                    ctx.arc(token.x + token.width / 2, tokenY + token.height / 2 + hoverY, token.width / 2, 0, Math.PI * 2);
                     ctx.fill();
                 }
-            });
+            };
+
+            const drawPowerUp = (powerUp: PowerUp) => {
+                const style = POWER_UP_STYLES[powerUp.kind];
+                const hoverY = Math.sin(Date.now() / 200 + powerUp.floatOffset) * 5;
+                const cx = powerUp.x + powerUp.width / 2;
+                const cy = groundY + powerUp.y + powerUp.height / 2 + hoverY;
+                const radius = powerUp.width / 2;
+
+                ctx.save();
+                ctx.shadowColor = style.color;
+                ctx.shadowBlur = 20;
+                ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+                ctx.strokeStyle = style.color;
+                ctx.lineWidth = 3;
+                ctx.beginPath();
+                ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+                ctx.fill();
+                ctx.stroke();
+                ctx.restore();
+
+                ctx.font = `bold ${Math.round(radius)}px "JetBrains Mono"`;
+                ctx.fillStyle = style.color;
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillText(style.icon, cx, cy);
+                ctx.textBaseline = 'alphabetic';
+            };
 
+            const drawDustStormFront = (storm: DustStorm) => {
+                // The storm is visible as a haze rolling in before the player reaches it
+                const haze = ctx.createLinearGradient(storm.x - 200, 0, storm.x + 200, 0);
+                haze.addColorStop(0, 'rgba(120, 72, 40, 0)');
+                haze.addColorStop(1, 'rgba(120, 72, 40, 0.45)');
+                ctx.fillStyle = haze;
+                ctx.fillRect(storm.x - 200, 0, storm.width + 200, height);
+            };
+
+            state.entities.forEach(entity => {
+                switch (entity.kind) {
+                    case 'rock':
+                        drawRock(entity);
+                        break;
+                    case 'overhead':
+                        drawOverhead(entity);
+                        break;
+                    case 'token':
+                        drawToken(entity);
+                        break;
+                    case 'shield':
+                    case 'magnet':
+                    case 'slowtime':
+                        drawPowerUp(entity);
+                        break;
+                    case 'duststorm':
+                        drawDustStormFront(entity);
+                        break;
+                }
+            });
             // Draw Character (using sprite image)
             const drawCharacter = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
-                const isJumping = !characterRef.current.grounded;
+                const isJumping = !p.grounded;
 
                 ctx.save();
                 ctx.translate(x + size / 2, y + size / 2);
@@ -597,7 +579,7 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
 
                 // Draw Character sprite
                 if (characterSpriteRef.current) {
-                    if (isInvulnerableRef.current) {
+                    if (state.invulnerableTicks > 0) {
                         ctx.globalAlpha = Math.sin(Date.now() / 50) > 0 ? 0.3 : 0.8;
                     }
                     ctx.drawImage(characterSpriteRef.current, 0, 0, size, size);
@@ -620,13 +602,18 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
                 ctx.translate(x + size / 2, y + size / 2);
 
                 // Draw shadow if grounded
-                if (chaserRef.current.grounded) {
+                if (c.grounded) {
                     ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
                     ctx.beginPath();
                     ctx.ellipse(0, size * 0.45, size * 0.4, size * 0.08, 0, 0, Math.PI * 2);
                     ctx.fill();
                 }
 
+                // Tripped over an obstacle: wobble until it recovers
+                if (state.chaserAi.stunTicks > 0) {
+                    ctx.rotate(Math.sin(Date.now() / 60) * 0.25);
+                }
+
                 // Draw Chaser sprite
                 if (chaserSpriteRef.current) {
                     ctx.drawImage(chaserSpriteRef.current, -size / 2, -size / 2, size, size);
@@ -638,8 +625,101 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
                 ctx.restore();
             };
 
-            drawChaser(ctx, c.x, c.y, CHARACTER_SIZE);
-            drawCharacter(ctx, p.x, p.y, CHARACTER_SIZE);
+            drawChaser(ctx, c.x, groundY + c.y, CHARACTER_SIZE);
+            // Ghost: the recorded run as a translucent runner, fading once its run is over
+            const ghostState = ghostEngineRef.current;
+            const ghostRun = ghostRef.current;
+            if (ghostState && ghostRun && gameState !== 'IDLE') {
+                const finished = ghostState.status !== 'PLAYING' || ghostState.tick >= ghostRun.ticks;
+                const gp = ghostState.player;
+                ctx.globalAlpha = finished ? 0.15 : 0.35;
+                if (characterSpriteRef.current) {
+                    ctx.drawImage(characterSpriteRef.current, gp.x, groundY + gp.y, CHARACTER_SIZE, CHARACTER_SIZE);
+                } else {
+                    ctx.fillStyle = '#a5b4fc';
+                    ctx.fillRect(gp.x + CHARACTER_SIZE * 0.3, groundY + gp.y + CHARACTER_SIZE * 0.2, CHARACTER_SIZE * 0.4, CHARACTER_SIZE * 0.75);
+                }
+                ctx.globalAlpha = 1.0;
+
+                ctx.font = 'bold 12px "JetBrains Mono"';
+                ctx.fillStyle = 'rgba(165, 180, 252, 0.8)';
+                ctx.textAlign = 'center';
+                ctx.fillText(
+                    finished ? `GHOST ${ghostRun.distance}m` : `GHOST ${getDistance(ghostState.score)}m`,
+                    gp.x + CHARACTER_SIZE / 2,
+                    groundY + gp.y - 10
+                );
+            }
+
+            drawCharacter(ctx, p.x, groundY + p.y, CHARACTER_SIZE);
+
+            // Shield: hearts circling the player until it absorbs a hit
+            if (state.shield) {
+                const cx = p.x + CHARACTER_SIZE / 2;
+                const cy = groundY + p.y + CHARACTER_SIZE / 2;
+                ctx.textAlign = 'center';
+                heartsRef.current.slice(0, SHIELD_HEARTS).forEach((heart, i) => {
+                    const angle = heart.phase + (i / SHIELD_HEARTS) * Math.PI * 2 + Date.now() / 1000 * heart.speed;
+                    const radius = CHARACTER_SIZE * 0.7;
+                    ctx.globalAlpha = heart.opacity + 0.4;
+                    ctx.font = `${Math.round(heart.size)}px sans-serif`;
+                    ctx.fillStyle = '#f472b6';
+                    ctx.fillText('♥', cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+                });
+                ctx.globalAlpha = 1.0;
+            }
+
+            // Magnet: a faint field around the player
+            if (state.magnetTicks > 0) {
+                ctx.strokeStyle = 'rgba(250, 204, 21, 0.25)';
+                ctx.lineWidth = 2;
+                ctx.setLineDash([8, 8]);
+                ctx.beginPath();
+                ctx.arc(p.x + CHARACTER_SIZE / 2, groundY + p.y + CHARACTER_SIZE / 2, 160 + Math.sin(Date.now() / 150) * 10, 0, Math.PI * 2);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+
+            // Slow-time: cool tint over the whole scene
+            if (state.slowTicks > 0) {
+                ctx.fillStyle = 'rgba(56, 189, 248, 0.08)';
+                ctx.fillRect(0, 0, width, height);
+            }
+
+            // Dust storm: fades in while the player is inside one and leaves only a small
+            // circle of visibility around them
+            const storm = dustStormRef.current;
+            storm.active = gameState === 'PLAYING' && isInDustStorm(state);
+            storm.opacity += ((storm.active ? 1 : 0) - storm.opacity) * Math.min(1, elapsed / 400);
+            if (storm.opacity > 0.01) {
+                const cx = p.x + CHARACTER_SIZE / 2;
+                const cy = groundY + p.y + CHARACTER_SIZE / 2;
+                const fog = ctx.createRadialGradient(cx, cy, 120, cx, cy, 320);
+                fog.addColorStop(0, 'rgba(70, 40, 20, 0)');
+                fog.addColorStop(1, `rgba(70, 40, 20, ${0.95 * storm.opacity})`);
+                ctx.fillStyle = fog;
+                ctx.fillRect(0, 0, width, height);
+
+                ctx.fillStyle = `rgba(210, 160, 110, ${0.6 * storm.opacity})`;
+                storm.particles.forEach(particle => {
+                    particle.x -= particle.speed * 4 * (elapsed / TICK_MS);
+                    if (particle.x < 0) particle.x += width;
+                    ctx.fillRect(particle.x, (particle.y / 500) * height, particle.size * 3, particle.size);
+                });
+            }
+
+            // Active power-ups
+            const activeEffects = [
+                state.shield ? 'SHIELD' : null,
+                state.magnetTicks > 0 ? `MAGNET ${Math.ceil(state.magnetTicks * TICK_MS / 1000)}s` : null,
+                state.slowTicks > 0 ? `SLOW ${Math.ceil(state.slowTicks * TICK_MS / 1000)}s` : null,
+            ].filter(Boolean);
+            if (gameState === 'PLAYING' && activeEffects.length > 0) {
+                ctx.font = 'bold 14px "JetBrains Mono"';
+                ctx.fillStyle = '#ffffff';
+                ctx.textAlign = 'center';
+                ctx.fillText(activeEffects.join('  ·  '), width / 2, 90);
+            }
 
             // Overlays
             if (gameState === 'IDLE') {
@@ -671,13 +751,13 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
 
             // Progress Bar (Only when playing or game over)
             if (gameState !== 'IDLE') {
-                const currentCycleScore = scoreRef.current % cfg.winScore;
+                const currentCycleScore = state.score % cfg.winScore;
                 const progress = Math.min(currentCycleScore / cfg.winScore, 1);
 
                 ctx.fillStyle = '#3f3f46';
                 ctx.fillRect(0, 0, width, 4);
 
-                if (scoreRef.current > 0 && scoreRef.current % cfg.winScore < 100) {
+                if (state.score > 0 && state.score % cfg.winScore < 100) {
                     ctx.fillStyle = '#22c55e';
                 } else {
                     ctx.fillStyle = '#10b981';
@@ -693,7 +773,7 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
         return () => {
             if (requestRef.current) cancelAnimationFrame(requestRef.current);
         };
-    }, [gameState, difficulty, onSuccess, onVerify, highScore, canvasSize]);
+    }, [gameState, difficulty, highScore, canvasSize, submitRun]);
 
 
 
@@ -719,6 +799,74 @@ const CaptchaChallenge: React.FC<CaptchaChallengeProps> = ({ onVerify, onSuccess
             )}
 
 
+            {/* Difficulty picker, between runs only */}
+            {gameState !== 'PLAYING' && (
+                <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-2">
+                    <div className="flex gap-1 bg-black/50 backdrop-blur-sm p-1 rounded-xl border border-white/10">
+                        {DIFFICULTY_OPTIONS.map(([value, label]) => (
+                            <button
+                                key={value}
+                                type="button"
+                                onClick={(e) => {
+                                    e.currentTarget.blur();
+                                    setDifficulty(value);
+                                    setIsDaily(false);
+                                    localStorage.setItem(DIFFICULTY_STORAGE, value);
+                                }}
+                                className={`px-3 py-1 text-[10px] font-bold rounded-lg uppercase transition-colors ${!isDaily && difficulty === value ? 'bg-white text-black' : 'text-white hover:bg-white/10'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                        {onDailyStart && (
+                            <button
+                                type="button"
+                                onClick={(e) => {
+                                    e.currentTarget.blur();
+                                    setIsDaily(true);
+                                    setGhostSource(null);
+                                }}
+                                className={`px-3 py-1 text-[10px] font-bold rounded-lg uppercase transition-colors ${isDaily ? 'bg-yellow-400 text-black' : 'text-yellow-300 hover:bg-white/10'}`}
+                            >
+                                Daily
+                            </button>
+                        )}
+                    </div>
+                    <span className="text-[10px] text-white/70 font-mono">
+                        {isDaily
+                            ? `Same course for everyone today · top ${rewardSchedule.dailyPool.shares.length} split ${rewardSchedule.dailyPool.totalSOL} SOL at midnight UTC`
+                            : `${MILESTONE_INTERVAL}m: ${getMilestoneReward(rewardSchedule, difficulty, MILESTONE_INTERVAL).toFixed(5)} SOL · token: ${getTokenReward(rewardSchedule, difficulty).toFixed(5)} SOL`}
+                    </span>
+                    {onLoadGhost && !isDaily && (
+                        <div className="flex items-center gap-2">
+                            <span className="text-[10px] text-white/70 font-mono uppercase">Ghost</span>
+                            <div className="flex gap-1 bg-black/50 backdrop-blur-sm p-1 rounded-xl border border-white/10">
+                                {GHOST_OPTIONS.map(([value, label]) => (
+                                    <button
+                                        key={label}
+                                        type="button"
+                                        onClick={(e) => {
+                                            e.currentTarget.blur();
+                                            setGhostSource(value);
+                                        }}
+                                        className={`px-3 py-1 text-[10px] font-bold rounded-lg uppercase transition-colors ${ghostSource === value ? 'bg-white text-black' : 'text-white hover:bg-white/10'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {ghostSource && (
+                        <span className="text-[10px] text-white/70 font-mono">
+                            {ghost
+                                ? `Racing ${ghost.distance}m on ${ghost.difficulty} · practice run, no rewards`
+                                : ghostError || 'Loading ghost...'}
+                        </span>
+                    )}
+                </div>
+            )}
+
             {/* Game Info Overlay - Removed from canvas, now in Dashboard */}
         </div>
     );
@@ -6,41 +6,54 @@ import MinerControls from './MinerControls';
 import LiveChat from './LiveChat';
 import CaptchaChallenge from './CaptchaChallenge';
 import TransactionHistory from './TransactionHistory';
+import TextCaptcha from './TextCaptcha';
 import Leaderboard from './Leaderboard';
-import { MinerStatus, MiningStats, MinerConfig, PayoutRecord, CaptchaDifficulty } from '../types';
+import { MinerStatus, MiningStats, MinerConfig, PayoutRecord, CaptchaDifficulty, CaptchaImage, CaptchaSolveResult, RunTicket, RunResult, GhostRun, GhostSource } from '../types';
+import { RunLog } from '../shared/runner/replay';
+import { RewardSchedule } from '../shared/rewards';
 
 interface DashboardProps {
   status: MinerStatus;
+  throttleReason: string | null;
+  isCaptchaMining: boolean;
   stats: MiningStats;
   config: MinerConfig;
+  rewardSchedule: RewardSchedule;
   history: PayoutRecord[];
   onToggle: () => void;
   onToggleTab: () => void;
+  hashingConsent: boolean;
+  onHashingConsentChange: (granted: boolean) => void;
   onConfigChange: (config: MinerConfig) => void;
-  onVerify: (solution: string, expected: string) => Promise<{ success: boolean; error?: string }>;
-  onSuccess: (difficulty: CaptchaDifficulty) => void;
-  onMilestone: (distance: number) => void;
-  onRequestWithdrawal: () => Promise<{ success: boolean; error?: string; txHash?: string }>;
+  onRequestCaptcha: (difficulty: CaptchaDifficulty) => Promise<CaptchaImage | null>;
+  onSolveCaptcha: (captchaId: string, solution: string) => Promise<CaptchaSolveResult>;
+  onRunnerFrame: (frameMs: number) => void;
+  onRunStart: (difficulty: CaptchaDifficulty) => Promise<RunTicket | null>;
+  onDailyStart: () => Promise<RunTicket | null>;
+  onRunEnd: (runId: string, log: RunLog) => Promise<RunResult>;
+  onLoadGhost: (source: GhostSource) => Promise<GhostRun | null>;
+  onRequestWithdrawal: () => Promise<{ success: boolean; error?: string; txHash?: string; holdReason?: string }>;
+  onRedeemCode: (code: string) => Promise<{ success: boolean; amountSOL?: number; error?: string }>;
   onLogout?: () => void;
   onSettingsClick?: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({
-  status, stats, config, history, onToggle, onToggleTab, onConfigChange, onVerify, onSuccess, onMilestone, onRequestWithdrawal, onLogout, onSettingsClick
+  status, throttleReason, isCaptchaMining, stats, config, rewardSchedule, history, onToggle, onToggleTab, hashingConsent, onHashingConsentChange, onConfigChange, onRequestCaptcha, onSolveCaptcha, onRunnerFrame, onRunStart, onDailyStart, onRunEnd, onLoadGhost, onRequestWithdrawal, onRedeemCode, onLogout, onSettingsClick
 }) => {
-  const [lastGame, setLastGame] = React.useState<{ score: number; timestamp: number } | null>(null);
-
   return (
     <div className="relative h-full w-full">
       {/* Full Screen Game Background */}
       <div className="absolute inset-0 z-0">
         <CaptchaChallenge
-          onVerify={onVerify}
-          onSuccess={onSuccess}
           onStart={onToggle}
-          onMilestone={onMilestone}
-          onGameOver={(score) => setLastGame({ score, timestamp: Date.now() })}
-          isMining={status === MinerStatus.MINING || status === MinerStatus.DUAL_MINING}
+          onRunStart={onRunStart}
+          onDailyStart={onDailyStart}
+          onRunEnd={onRunEnd}
+          onLoadGhost={onLoadGhost}
+          rewardSchedule={rewardSchedule}
+          onFrame={onRunnerFrame}
+          isMining={isCaptchaMining}
         />
       </div>
 
@@ -86,7 +99,7 @@ const Dashboard: React.FC<DashboardProps> = ({
           {/* Top Left - Leaderboard (moved from volume position) */}
           <div className="absolute top-4 left-4 pointer-events-auto">
             <div className="w-80">
-              <Leaderboard userAddress={config.payoutAddress} lastGame={lastGame} />
+              <Leaderboard userAddress={config.payoutAddress} />
             </div>
           </div>
 
@@ -95,15 +108,25 @@ const Dashboard: React.FC<DashboardProps> = ({
             <div className="w-96">
               <MinerControls
                 status={status}
+                throttleReason={throttleReason}
                 config={config}
                 onToggle={onToggle}
                 onToggleTab={onToggleTab}
+                hashingConsent={hashingConsent}
+                onHashingConsentChange={onHashingConsentChange}
                 onConfigChange={onConfigChange}
-                onVerify={onVerify}
-                onSuccess={onSuccess}
                 currentBalance={stats.pendingSOL}
+                hashRate={stats.hashRate}
+                totalHashes={stats.totalHashes}
                 onRequestWithdrawal={onRequestWithdrawal}
+                onRedeemCode={onRedeemCode}
               />
+              <div className="mt-4">
+                <TextCaptcha rewardSchedule={rewardSchedule} onRequest={onRequestCaptcha} onSolve={onSolveCaptcha} />
+              </div>
+              <div className="mt-4">
+                <TransactionHistory history={history} />
+              </div>
             </div>
           </div>
 
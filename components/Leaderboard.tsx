@@ -1,95 +1,135 @@
 import React, { useState, useEffect } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { apiRequest } from '../utils/api';
+import { useRealtime, useRealtimeEvent, useConnectionStatus } from '../hooks/useRealtime';
+import type { LeaderboardWindow, LeaderboardPage, DailyLeaderboard } from '../shared/protocol';
 
-interface LeaderboardEntry {
-    user: string;
-    score: number;
-    timestamp: string;
-}
+type BoardTab = LeaderboardWindow | 'dailyrun';
+
+const TABS: [BoardTab, string][] = [
+    ['daily', 'Today'],
+    ['weekly', 'Week'],
+    ['alltime', 'All time'],
+    ['dailyrun', 'Daily run']
+];
+
+const PAGE_SIZE = 20;
 
 interface LeaderboardProps {
     userAddress: string;
-    lastGame?: { score: number; timestamp: number } | null;
 }
 
-const isLocal = typeof window !== 'undefined' &&
-    (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
-
-const SOCKET_URL = import.meta.env.VITE_API_URL || (isLocal ? 'http://localhost:3001' : '');
-
-const Leaderboard: React.FC<LeaderboardProps> = ({ userAddress, lastGame }) => {
-    const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
-    const [socket, setSocket] = useState<Socket | null>(null);
-    const [isConnected, setIsConnected] = useState(false);
-
-    // Initialize Socket
+const Leaderboard: React.FC<LeaderboardProps> = ({ userAddress }) => {
+    const [pages, setPages] = useState<Partial<Record<LeaderboardWindow, LeaderboardPage>>>({});
+    const [daily, setDaily] = useState<DailyLeaderboard | null>(null);
+    const [tab, setTab] = useState<BoardTab>('alltime');
+    const [page, setPage] = useState(0);
+    const realtime = useRealtime();
+    // Bumped on every (re)connect, since the server forgets subscriptions with the old socket
+    const { generation } = useConnectionStatus();
+    // Re-render once a minute so the daily countdown stays current
+    const [, setNow] = useState(Date.now());
+
+    // Scores only land here after the server has replayed the run
+    useRealtimeEvent('leaderboard_page', (data) => {
+        setPages(prev => ({ ...prev, [data.window]: data }));
+    });
+
+    useRealtimeEvent('daily_leaderboard_update', setDaily);
+
+    // The server pushes the daily board when a socket connects, which may have been before
+    // this panel mounted; fetch it once per connection instead
     useEffect(() => {
-        if (!SOCKET_URL) return;
+        if (!generation) return;
+        apiRequest<{ board: DailyLeaderboard }>('/api/daily')
+            .then(result => setDaily(result.board))
+            .catch(error => console.warn('Failed to load daily board', error));
+    }, [generation]);
 
-        const newSocket = io(SOCKET_URL, {
-            reconnectionAttempts: 5,
-            reconnectionDelay: 2000,
-        });
-
-        setSocket(newSocket);
-
-        newSocket.on('connect', () => setIsConnected(true));
-        newSocket.on('disconnect', () => setIsConnected(false));
-
-        newSocket.on('leaderboard_update', (data: LeaderboardEntry[]) => {
-            setEntries(data);
-        });
+    // Follow the board and page on screen
+    useEffect(() => {
+        if (!generation || tab === 'dailyrun') return;
 
+        realtime.emit('leaderboard_subscribe', { window: tab, offset: page * PAGE_SIZE, limit: PAGE_SIZE });
         return () => {
-            newSocket.disconnect();
+            realtime.emit('leaderboard_unsubscribe', { window: tab });
         };
-    }, []);
+    }, [realtime, tab, page, generation]);
 
-    // Handle Score Submission
     useEffect(() => {
-        if (!socket || !isConnected || !lastGame || !userAddress) return;
-
-        // Calculate distance in meters (same as display logic: score / 50)
-        const distance = Math.floor(lastGame.score / 50);
-
-        // Don't submit 0 scores
-        if (distance <= 0) return;
-
-        socket.emit('submit_score', {
-            user: userAddress,
-            score: distance // Submitting DISTANCE as the leaderboard metric
-        });
-
-    }, [lastGame, socket, isConnected, userAddress]);
+        if (tab !== 'dailyrun') return;
+        const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(timer);
+    }, [tab]);
+
+    const current = tab === 'dailyrun' ? null : pages[tab];
+    const entries = tab === 'dailyrun'
+        ? (daily ? daily.entries.map((entry, index) => ({ ...entry, rank: index + 1 })) : [])
+        : (current ? current.entries : []);
+    const pageCount = current ? Math.max(1, Math.ceil(current.total / PAGE_SIZE)) : 1;
+
+    // The daily run board is short enough to be sent whole, so the rank can be found locally
+    let myRank: { rank: number; score: number } | null = null;
+    if (current) {
+        myRank = current.me;
+    } else if (tab === 'dailyrun') {
+        const mine = entries.find(entry => entry.user === userAddress);
+        myRank = mine ? { rank: mine.rank, score: mine.score } : null;
+    }
 
     return (
         <div className="bg-zinc-900/40 backdrop-blur-xl border border-zinc-100/10 rounded-2xl p-4 shadow-xl relative overflow-hidden mt-4">
             {/* Subtle Glow Overlay */}
             <div className="absolute inset-x-0 -top-px h-px bg-gradient-to-r from-transparent via-white/10 to-transparent" />
 
-            <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-2">
                     <h4 className="text-sm font-bold text-white uppercase tracking-wider">Top Goy</h4>
                 </div>
+                {current && (
+                    <span className="text-[10px] font-mono text-zinc-500">{current.total} runners</span>
+                )}
             </div>
 
+            <div className="flex gap-1 mb-3 bg-black/30 p-0.5 rounded-lg border border-white/5">
+                {TABS.map(([value, label]) => (
+                    <button
+                        key={value}
+                        type="button"
+                        onClick={() => {
+                            setTab(value);
+                            setPage(0);
+                        }}
+                        className={`flex-1 px-1.5 py-0.5 text-[9px] font-bold rounded-md uppercase transition-colors ${tab === value ? 'bg-white text-black' : 'text-zinc-400 hover:text-white'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'dailyrun' && daily && (
+                <div className="flex items-center justify-between mb-2 text-[10px] font-mono text-zinc-500">
+                    <span>{daily.day} · pool {daily.poolSOL} SOL</span>
+                    <span>{daily.settled ? 'Settled' : `ends in ${formatTimeLeft(daily.endsAt)}`}</span>
+                </div>
+            )}
+
             <div className="space-y-1 max-h-60 overflow-y-auto pr-1 scrollbar-thin scrollbar-thumb-zinc-800 scrollbar-track-transparent">
                 {entries.length === 0 ? (
                     <div className="text-center py-4 text-xs text-zinc-600 font-mono">
                         No records yet. Be the first!
                     </div>
                 ) : (
-                    entries.map((entry, index) => {
+                    entries.map((entry) => {
                         const isMe = entry.user === userAddress;
-                        const rankColor = index === 0 ? 'text-yellow-400' : index === 1 ? 'text-zinc-300' : index === 2 ? 'text-red-400' : 'text-zinc-500';
+                        const rankColor = entry.rank === 1 ? 'text-yellow-400' : entry.rank === 2 ? 'text-zinc-300' : entry.rank === 3 ? 'text-red-400' : 'text-zinc-500';
 
                         return (
                             <div
-                                key={`${entry.user}-${index}`}
+                                key={`${entry.user}-${entry.rank}`}
                                 className={`flex items-center justify-between p-2 rounded-lg border ${isMe ? 'bg-indigo-500/10 border-indigo-500/30' : 'bg-black/20 border-white/5'} transition-all hover:bg-white/5`}
                             >
                                 <div className="flex items-center gap-3">
-                                    <span className={`text-xs font-black mono w-4 ${rankColor}`}>#{index + 1}</span>
+                                    <span className={`text-xs font-black mono min-w-[2rem] ${rankColor}`}>#{entry.rank}</span>
                                     <span className={`text-xs font-mono ${isMe ? 'text-indigo-300' : 'text-zinc-400'}`}>
                                         {formatAddress(entry.user)}
                                     </span>
@@ -102,10 +142,49 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ userAddress, lastGame }) => {
                     })
                 )}
             </div>
+
+            {current && pageCount > 1 && (
+                <div className="flex items-center justify-between mt-2 text-[10px] font-mono text-zinc-500">
+                    <button
+                        type="button"
+                        disabled={page === 0}
+                        onClick={() => setPage(prev => Math.max(0, prev - 1))}
+                        className="px-2 py-0.5 rounded-md hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                    >
+                        ‹ Prev
+                    </button>
+                    <span>Page {page + 1} / {pageCount}</span>
+                    <button
+                        type="button"
+                        disabled={page + 1 >= pageCount}
+                        onClick={() => setPage(prev => prev + 1)}
+                        className="px-2 py-0.5 rounded-md hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                    >
+                        Next ›
+                    </button>
+                </div>
+            )}
+
+            {/* Pinned row: where the player stands, even when off the visible page */}
+            {userAddress && (
+                <div className="flex items-center justify-between mt-2 p-2 rounded-lg border bg-indigo-500/10 border-indigo-500/30">
+                    <span className="text-xs font-mono text-indigo-300">
+                        {myRank ? `Your rank: #${myRank.rank}` : 'Your rank: unranked'}
+                    </span>
+                    {myRank && (
+                        <span className="text-xs font-bold text-white mono">{myRank.score}m</span>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
 
+const formatTimeLeft = (endsAt: string) => {
+    const minutes = Math.max(0, Math.floor((new Date(endsAt).getTime() - Date.now()) / 60000));
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
 const formatAddress = (address: string) => {
     if (!address) return '???';
     return `${address.slice(0, 4)}...${address.slice(-4)}`;
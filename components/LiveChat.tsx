@@ -1,62 +1,67 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { io, Socket } from 'socket.io-client';
-
-interface Message {
-    id: string;
-    user: string;
-    text: string;
-    timestamp: string;
-}
+import { useRealtime, useRealtimeEvent, useConnectionStatus } from '../hooks/useRealtime';
+import { CHAT_ROOMS, CHAT_ROOM_LABELS, DEFAULT_CHAT_ROOM, directRoom, directRoomMembers, isPublicRoom, findMentions } from '../shared/chat';
+import type { ChatMessage } from '../shared/protocol';
 
 interface LiveChatProps {
     userAddress: string;
 }
 
-// Only use localhost fallback if we are actually running on localhost
-const isLocal = typeof window !== 'undefined' &&
-    (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
+const STATUS_LABELS = {
+    connected: 'Live Chat',
+    connecting: 'Connecting...',
+    reconnecting: 'Reconnecting...',
+    offline: 'Offline',
+};
+
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
 
-const SOCKET_URL = import.meta.env.VITE_API_URL || (isLocal ? 'http://localhost:3001' : '');
+const MENTION_SPLIT = /(@[1-9A-HJ-NP-Za-km-z]{32,44})\b/;
 
 const LiveChat: React.FC<LiveChatProps> = ({ userAddress }) => {
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [activeRoom, setActiveRoom] = useState<string>(DEFAULT_CHAT_ROOM);
+    const [unread, setUnread] = useState<Record<string, number>>({});
+    // Direct message conversations opened in this session that have no history yet
+    const [openedDirectRooms, setOpenedDirectRooms] = useState<string[]>([]);
+    // Set as soon as the room changes, so history for the previous room is ignored
+    const activeRoomRef = useRef(activeRoom);
+    const inputRef = useRef<HTMLInputElement>(null);
     const [inputValue, setInputValue] = useState('');
-    const [socket, setSocket] = useState<Socket | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [isConnected, setIsConnected] = useState(false);
     const scrollRef = useRef<HTMLDivElement>(null);
+    const realtime = useRealtime();
+    const { state, generation } = useConnectionStatus();
 
+    // A new connection starts in the default room; move it to the one on screen
     useEffect(() => {
-        if (!SOCKET_URL) return;
-
-        const newSocket = io(SOCKET_URL, {
-            reconnectionAttempts: 5,
-            reconnectionDelay: 2000,
-        });
-
-        setSocket(newSocket);
+        if (generation) realtime.emit('chat_join', { room: activeRoomRef.current });
+    }, [realtime, generation]);
 
-        newSocket.on('connect', () => setIsConnected(true));
-        newSocket.on('disconnect', () => setIsConnected(false));
+    useRealtimeEvent('chat_history', (history) => {
+        if (history.room !== activeRoomRef.current) return;
+        setMessages(history.messages);
+        setUnread(history.unread);
+    });
 
-        newSocket.on('chat_history', (history: Message[]) => {
-            setMessages(history);
-        });
-
-        newSocket.on('receive_message', (message: Message) => {
+    useRealtimeEvent('receive_message', (message) => {
+        if (message.room === activeRoomRef.current) {
             setMessages((prev) => [...prev, message]);
-        });
+            realtime.emit('chat_read', { room: message.room });
+        } else if (message.address !== userAddress) {
+            setUnread((prev) => ({ ...prev, [message.room]: (prev[message.room] || 0) + 1 }));
+        }
+    });
 
-        newSocket.on('chat_error', (err: { message: string }) => {
-            setError(err.message);
-            setTimeout(() => setError(null), 3000);
-        });
+    useRealtimeEvent('message_deleted', ({ id }) => {
+        setMessages((prev) => prev.filter((message) => message.id !== id));
+    });
 
-        return () => {
-            newSocket.disconnect();
-        };
-    }, []);
+    useRealtimeEvent('chat_error', (err) => {
+        setError(err.message);
+        setTimeout(() => setError(null), 3000);
+    });
 
     useEffect(() => {
         if (scrollRef.current) {
@@ -64,33 +69,94 @@ const LiveChat: React.FC<LiveChatProps> = ({ userAddress }) => {
         }
     }, [messages]);
 
+    const switchRoom = (room: string) => {
+        if (room === activeRoomRef.current) return;
+        activeRoomRef.current = room;
+        setActiveRoom(room);
+        setMessages([]);
+        setUnread((prev) => ({ ...prev, [room]: 0 }));
+        realtime.emit('chat_join', { room });
+    };
+
+    const openDirectMessage = (address: string) => {
+        if (address === userAddress) return;
+        const room = directRoom(userAddress, address);
+        setOpenedDirectRooms((prev) => (prev.includes(room) ? prev : [...prev, room]));
+        switchRoom(room);
+    };
+
+    const insertMention = (address: string) => {
+        setInputValue((prev) => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}@${address} `);
+        inputRef.current?.focus();
+    };
+
     const handleSendMessage = (e: React.FormEvent) => {
         e.preventDefault();
-        if (!inputValue.trim() || !socket || !isConnected) return;
-
-        const shortAddress = `${userAddress.slice(0, 4)}...${userAddress.slice(-4)}`;
+        if (!inputValue.trim() || state === 'offline') return;
 
-        socket.emit('send_message', {
-            user: shortAddress,
-            text: inputValue.trim(),
-        });
+        // The server attributes the message to our authenticated wallet; while reconnecting
+        // the message waits in the realtime client's queue
+        const members = directRoomMembers(activeRoom);
+        const other = members && (members[0] === userAddress ? members[1] : members[0]);
+        realtime.emit('send_message', other
+            ? { text: inputValue.trim(), to: other }
+            : { text: inputValue.trim(), room: activeRoom });
 
         setInputValue('');
     };
 
+    // Conversations with unread messages come from the server, new ones from this session
+    const directRooms = [...new Set([
+        ...Object.keys(unread).filter((room) => directRoomMembers(room)),
+        ...openedDirectRooms,
+    ])];
+    const roomLabel = (room: string) => {
+        if (isPublicRoom(room)) return CHAT_ROOM_LABELS[room];
+        const members = directRoomMembers(room);
+        return members ? `@${shorten(members[0] === userAddress ? members[1] : members[0])}` : room;
+    };
+
+    const renderText = (text: string) => text.split(MENTION_SPLIT).map((part, index) => {
+        if (index % 2 === 0) return part;
+        const address = part.slice(1);
+        return (
+            <span key={index} className={`font-bold mono ${address === userAddress ? 'text-yellow-300' : 'text-indigo-300'}`}>
+                @{address === userAddress ? 'you' : shorten(address)}
+            </span>
+        );
+    });
+
     return (
         <div className="bg-zinc-900/40 backdrop-blur-xl border border-zinc-100/10 rounded-2xl flex flex-col h-[400px] shadow-2xl relative overflow-hidden transition-all duration-300 hover:scale-[1.01]">
             {/* Header */}
             <div className="p-4 border-b border-zinc-100/10 flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                    <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-zinc-500'}`} />
+                    <div className={`w-2 h-2 rounded-full ${state === 'connected' ? 'bg-green-500 animate-pulse' : state === 'offline' ? 'bg-zinc-500' : 'bg-yellow-500'}`} />
                     <h3 className="text-white text-xs font-bold uppercase tracking-wider">
-                        {isConnected ? 'Live Chat' : 'Connecting...'}
+                        {STATUS_LABELS[state]}
                     </h3>
                 </div>
                 <span className="text-[10px] text-zinc-500 font-bold uppercase">{messages.length} Messages</span>
             </div>
 
+            {/* Rooms and direct messages */}
+            <div className="px-4 py-2 border-b border-zinc-100/10 flex gap-1 overflow-x-auto scrollbar-none">
+                {[...CHAT_ROOMS, ...directRooms].map((room) => (
+                    <button
+                        key={room}
+                        onClick={() => switchRoom(room)}
+                        className={`shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${room === activeRoom ? 'bg-zinc-700/60 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                        {roomLabel(room)}
+                        {room !== activeRoom && unread[room] > 0 && (
+                            <span className="min-w-[14px] px-1 rounded-full bg-indigo-500 text-white text-[8px] leading-[14px] text-center">
+                                {unread[room] > 99 ? '99+' : unread[room]}
+                            </span>
+                        )}
+                    </button>
+                ))}
+            </div>
+
             {/* Messages Area */}
             <div
                 ref={scrollRef}
@@ -104,17 +170,43 @@ const LiveChat: React.FC<LiveChatProps> = ({ userAddress }) => {
                         <p className="text-[10px] font-bold uppercase tracking-widest">No messages yet</p>
                     </div>
                 ) : (
-                    messages.map((msg) => (
-                        <div key={msg.id} className="animate-in fade-in slide-in-from-bottom-2 duration-300">
-                            <div className="flex items-center gap-2 mb-1">
-                                <span className="text-[10px] font-black text-indigo-400 mono uppercase tracking-tight">
-                                    {msg.user === `${userAddress.slice(0, 4)}...${userAddress.slice(-4)}` ? 'You' : msg.user}
-                                </span>
-                                <span className="text-[8px] text-zinc-600 font-bold">{new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    messages.map((msg) => {
+                        const mentionsMe = msg.address !== userAddress && findMentions(msg.text).includes(userAddress);
+                        const sender = msg.address && msg.address !== userAddress ? msg.address : null;
+                        return (
+                            <div
+                                key={msg.id}
+                                className={`group animate-in fade-in slide-in-from-bottom-2 duration-300 ${mentionsMe ? 'border-l-2 border-yellow-400/70 bg-yellow-400/5 -mx-2 px-2 py-1 rounded-r-lg' : ''}`}
+                            >
+                                <div className="flex items-center gap-2 mb-1">
+                                    {sender ? (
+                                        <button
+                                            onClick={() => openDirectMessage(sender)}
+                                            title="Send a direct message"
+                                            className="text-[10px] font-black text-indigo-400 hover:text-indigo-300 mono uppercase tracking-tight"
+                                        >
+                                            {msg.user}
+                                        </button>
+                                    ) : (
+                                        <span className="text-[10px] font-black text-indigo-400 mono uppercase tracking-tight">
+                                            {msg.address === userAddress ? 'You' : msg.user}
+                                        </span>
+                                    )}
+                                    <span className="text-[8px] text-zinc-600 font-bold">{new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                                    {sender && (
+                                        <button
+                                            onClick={() => insertMention(sender)}
+                                            title="Mention"
+                                            className="text-[10px] font-bold text-zinc-600 hover:text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        >
+                                            @
+                                        </button>
+                                    )}
+                                </div>
+                                <p className="text-sm text-zinc-200 leading-relaxed break-words">{renderText(msg.text)}</p>
                             </div>
-                            <p className="text-sm text-zinc-200 leading-relaxed break-words">{msg.text}</p>
-                        </div>
-                    ))
+                        );
+                    })
                 )}
             </div>
 
@@ -129,18 +221,19 @@ const LiveChat: React.FC<LiveChatProps> = ({ userAddress }) => {
             <form onSubmit={handleSendMessage} className="p-4 border-t border-zinc-100/10 bg-black/20">
                 <div className="relative">
                     <input
+                        ref={inputRef}
                         type="text"
                         value={inputValue}
                         autoComplete="off"
                         maxLength={280}
                         onChange={(e) => setInputValue(e.target.value)}
-                        placeholder={isConnected ? "Type your message..." : "Waiting for connection..."}
+                        placeholder={state === 'offline' ? "Chat is unavailable" : `Message ${roomLabel(activeRoom)}...`}
                         className="w-full bg-zinc-800/50 border border-zinc-700/50 rounded-xl px-4 py-2 text-xs text-white outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/20 transition-all placeholder:text-zinc-600"
-                        disabled={!isConnected}
+                        disabled={state === 'offline'}
                     />
                     <button
                         type="submit"
-                        disabled={!inputValue.trim() || !isConnected}
+                        disabled={!inputValue.trim() || state === 'offline'}
                         className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 text-zinc-400 hover:text-white disabled:opacity-20 transition-all"
                     >
                         <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,37 +1,61 @@
 
 import React, { useState, useCallback } from 'react';
-import { MinerStatus, MinerConfig, CaptchaDifficulty } from '../types';
+import { MinerStatus, MinerConfig } from '../types';
+import { normalizeCode, isWellFormedCode, hasValidChecksum } from '../shared/codes';
+import { MAX_THROTTLE, maxThreads } from '../utils/hashPool';
 
 interface WithdrawalResult {
   success: boolean;
   error?: string;
   txHash?: string;
+  holdReason?: string;
+}
+
+interface RedeemResult {
+  success: boolean;
+  amountSOL?: number;
+  error?: string;
 }
 
 interface MinerControlsProps {
   status: MinerStatus;
+  throttleReason: string | null;
   config: MinerConfig;
   onToggle: () => void;
   onToggleTab: () => void;
+  hashingConsent: boolean;
+  onHashingConsentChange: (granted: boolean) => void;
   onConfigChange: (config: MinerConfig) => void;
-  onVerify: (solution: string, expected: string) => Promise<{ success: boolean; error?: string }>;
-  onSuccess: (difficulty: CaptchaDifficulty) => void;
   currentBalance: number;
+  hashRate: number;
+  totalHashes: number;
   onRequestWithdrawal: () => Promise<WithdrawalResult>;
+  onRedeemCode: (code: string) => Promise<RedeemResult>;
 }
 
 const MinerControls: React.FC<MinerControlsProps> = ({
-  status, config, onToggle, onToggleTab, onConfigChange, onVerify, onSuccess, currentBalance, onRequestWithdrawal
+  status, throttleReason, config, onToggle, onToggleTab, hashingConsent, onHashingConsentChange, onConfigChange, currentBalance, hashRate, totalHashes, onRequestWithdrawal, onRedeemCode
 }) => {
   const [showWithdrawSettings, setShowWithdrawSettings] = useState(false);
   const [isWithdrawing, setIsWithdrawing] = useState(false);
   const [withdrawError, setWithdrawError] = useState<string | null>(null);
   const [withdrawSuccess, setWithdrawSuccess] = useState<string | null>(null);
+  const [redeemInput, setRedeemInput] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [redeemResult, setRedeemResult] = useState<{ ok: boolean; message: string } | null>(null);
 
   const isCaptchaActive = status === MinerStatus.MINING || status === MinerStatus.DUAL_MINING;
-  const isTabActive = status === MinerStatus.TAB_MINING || status === MinerStatus.DUAL_MINING;
+  // Throttled means tab mining is on but held back by the resource governor
+  const isTabActive = status === MinerStatus.TAB_MINING || status === MinerStatus.DUAL_MINING || status === MinerStatus.THROTTLED;
   const isDual = status === MinerStatus.DUAL_MINING;
   const canWithdraw = currentBalance >= 0.03 && !isWithdrawing;
+  const threadOptions = Array.from({ length: maxThreads() }, (_, i) => i + 1);
+
+  const formatHashRate = (rate: number) => {
+    if (rate >= 1e6) return `${(rate / 1e6).toFixed(2)} MH/s`;
+    if (rate >= 1e3) return `${(rate / 1e3).toFixed(1)} kH/s`;
+    return `${rate.toFixed(0)} H/s`;
+  };
 
   const handleWithdraw = useCallback(async () => {
     setIsWithdrawing(true);
@@ -44,6 +68,12 @@ const MinerControls: React.FC<MinerControlsProps> = ({
       if (result.success && result.txHash) {
         setWithdrawSuccess(`Transaction sent! TX: ${result.txHash.substring(0, 16)}...`);
         setTimeout(() => setWithdrawSuccess(null), 10000);
+      } else if (result.success && result.holdReason) {
+        setWithdrawSuccess(`Withdrawal held for review: ${result.holdReason}`);
+        setTimeout(() => setWithdrawSuccess(null), 10000);
+      } else if (result.success) {
+        setWithdrawSuccess('Withdrawal queued. Track it in your transaction history.');
+        setTimeout(() => setWithdrawSuccess(null), 10000);
       } else if (!result.success && result.error) {
         setWithdrawError(result.error);
         setTimeout(() => setWithdrawError(null), 5000);
@@ -56,6 +86,32 @@ const MinerControls: React.FC<MinerControlsProps> = ({
     }
   }, [onRequestWithdrawal]);
 
+  // A well-formed code whose check character is off was mistyped; say so before asking the server
+  const normalizedCode = normalizeCode(redeemInput);
+  const looksMistyped = isWellFormedCode(normalizedCode) && !hasValidChecksum(normalizedCode);
+
+  const handleRedeem = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!normalizedCode || isRedeeming) return;
+    setIsRedeeming(true);
+    setRedeemResult(null);
+
+    try {
+      const result = await onRedeemCode(normalizedCode);
+      if (result.success) {
+        setRedeemInput('');
+        setRedeemResult({ ok: true, message: `Code redeemed: +${result.amountSOL} SOL` });
+      } else {
+        setRedeemResult({ ok: false, message: result.error || 'Could not redeem code' });
+      }
+    } catch (err) {
+      setRedeemResult({ ok: false, message: 'Unexpected error occurred' });
+    } finally {
+      setIsRedeeming(false);
+      setTimeout(() => setRedeemResult(null), 8000);
+    }
+  }, [onRedeemCode, normalizedCode, isRedeeming]);
+
   return (
     <div className="max-w-4xl mx-auto">
       {/* Withdrawal Interface */}
@@ -166,6 +222,107 @@ const MinerControls: React.FC<MinerControlsProps> = ({
           </div>
         )}
 
+        {/* Redeem Code */}
+        <form onSubmit={handleRedeem} className="pt-4 border-t border-zinc-800/50">
+          <label className="text-[10px] uppercase text-zinc-500 font-bold block mb-1.5 tracking-wider">Redeem Code</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={redeemInput}
+              onChange={(e) => setRedeemInput(e.target.value)}
+              placeholder="PENGU-2026-XXXX-XXXX"
+              spellCheck={false}
+              autoComplete="off"
+              className="w-full bg-black/40 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-white font-mono uppercase focus:border-zinc-700 outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!normalizedCode || isRedeeming}
+              className={`neo-btn px-4 ${normalizedCode && !isRedeeming ? 'neo-btn-primary' : ''} ${isRedeeming ? 'opacity-70 cursor-wait' : ''}`}
+            >
+              <span className="font-black tracking-widest uppercase text-xs">{isRedeeming ? '...' : 'Redeem'}</span>
+            </button>
+          </div>
+          {looksMistyped && !redeemResult && (
+            <p className="text-[10px] text-yellow-400/80 mt-1.5">This code doesn't look right; check it for typos.</p>
+          )}
+        </form>
+        {redeemResult && (
+          <div className={`${redeemResult.ok ? 'bg-green-500/10 border-green-500/30' : 'bg-zinc-800/10 border-zinc-700/30'} border rounded-lg p-2`}>
+            <p className={`text-xs font-medium text-center ${redeemResult.ok ? 'text-green-400' : 'text-zinc-400'}`}>{redeemResult.message}</p>
+          </div>
+        )}
+
+        {/* Tab Mining - hashes in Web Workers, only after the user has agreed to it */}
+        <div className="pt-4 border-t border-zinc-800/50 space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-[10px] uppercase text-zinc-500 font-bold tracking-wider">Tab Mining</label>
+            {hashingConsent && (
+              <button
+                onClick={() => onHashingConsentChange(false)}
+                className="text-[10px] text-zinc-500 hover:text-white transition-colors"
+              >
+                Withdraw consent
+              </button>
+            )}
+          </div>
+
+          {!hashingConsent ? (
+            <div className="space-y-2">
+              <p className="text-[10px] text-zinc-400 leading-relaxed">
+                Tab mining runs a proof-of-work hash loop in background threads of this tab while it is on. It uses your CPU and battery, and you can stop it at any time.
+              </p>
+              <button onClick={() => onHashingConsentChange(true)} className="neo-btn w-full">
+                <span className="font-black tracking-widest uppercase text-xs">I agree, let this tab hash</span>
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <select
+                  value={config.threads}
+                  onChange={(e) => onConfigChange({ ...config, threads: Number(e.target.value) })}
+                  className="bg-black/40 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-white font-mono outline-none"
+                >
+                  {threadOptions.map(n => (
+                    <option key={n} value={n}>{n} {n === 1 ? 'thread' : 'threads'}</option>
+                  ))}
+                </select>
+                <div className="flex-1">
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_THROTTLE}
+                    step={10}
+                    value={config.throttle}
+                    onChange={(e) => onConfigChange({ ...config, throttle: Number(e.target.value) })}
+                    className="w-full accent-white"
+                  />
+                  <div className="text-[10px] text-zinc-500 font-mono">Throttle {config.throttle}% idle</div>
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-xs font-mono text-white">
+                  {formatHashRate(isTabActive ? hashRate : 0)}
+                  <span className="text-zinc-500"> / {totalHashes.toLocaleString()} hashes</span>
+                </div>
+                <button
+                  onClick={onToggleTab}
+                  className={`neo-btn px-4 ${isTabActive ? '' : 'neo-btn-primary'}`}
+                >
+                  <span className="font-black tracking-widest uppercase text-xs">{isTabActive ? 'Stop' : 'Start'}</span>
+                </button>
+              </div>
+              {throttleReason && (
+                <p className="text-[10px] text-yellow-400/80 flex items-center gap-1.5">
+                  <span className="w-1.5 h-1.5 rounded-full bg-yellow-500 animate-pulse" />
+                  {throttleReason}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
 
       </div>
 
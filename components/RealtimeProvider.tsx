@@ -0,0 +1,21 @@
+import React, { createContext, useEffect, useState } from 'react';
+import { API_URL } from '../utils/api';
+import { createRealtimeClient, RealtimeClient } from '../utils/realtime';
+
+export const RealtimeContext = createContext<RealtimeClient | null>(null);
+
+/**
+ * Owns the tab's single socket.io connection; panels reach it through the useRealtime hooks
+ */
+const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [client] = useState(() => createRealtimeClient(API_URL));
+
+    useEffect(() => {
+        client.open();
+        return () => client.close();
+    }, [client]);
+
+    return <RealtimeContext.Provider value={client}>{children}</RealtimeContext.Provider>;
+};
+
+export default RealtimeProvider;
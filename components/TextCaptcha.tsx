@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CaptchaDifficulty, CaptchaImage, CaptchaSolveResult } from '../types';
+import { RewardSchedule, getSolveReward } from '../shared/rewards';
+
+interface TextCaptchaProps {
+  rewardSchedule: RewardSchedule;
+  onRequest: (difficulty: CaptchaDifficulty) => Promise<CaptchaImage | null>;
+  onSolve: (captchaId: string, solution: string) => Promise<CaptchaSolveResult>;
+}
+
+const DIFFICULTIES: [CaptchaDifficulty, string][] = [
+  [CaptchaDifficulty.EASY, 'Easy'],
+  [CaptchaDifficulty.MEDIUM, 'Medium'],
+  [CaptchaDifficulty.HARD, 'Hard']
+];
+
+/**
+ * Text captcha mining: the server renders a distorted image and checks the answer
+ */
+const TextCaptcha: React.FC<TextCaptchaProps> = ({ rewardSchedule, onRequest, onSolve }) => {
+  const [difficulty, setDifficulty] = useState<CaptchaDifficulty>(CaptchaDifficulty.EASY);
+  const [captcha, setCaptcha] = useState<CaptchaImage | null>(null);
+  const [solution, setSolution] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadCaptcha = useCallback(async () => {
+    setIsLoading(true);
+    setSolution('');
+    const next = await onRequest(difficulty);
+    setCaptcha(next);
+    if (!next) setError('Could not load a captcha. Please try again.');
+    setIsLoading(false);
+  }, [difficulty, onRequest]);
+
+  useEffect(() => {
+    loadCaptcha();
+  }, [loadCaptcha]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!captcha || !solution.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setSuccess(null);
+
+    const result = await onSolve(captcha.captchaId, solution);
+    if (result.success) {
+      setSuccess(`Solved! +${(result.rewardSOL ?? 0).toFixed(4)} SOL`);
+      setTimeout(() => setSuccess(null), 3000);
+      loadCaptcha();
+    } else {
+      setError(result.error || 'Incorrect answer');
+      setTimeout(() => setError(null), 5000);
+      if (result.expired) {
+        loadCaptcha();
+      } else {
+        setSolution('');
+      }
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="bg-zinc-900/40 backdrop-blur-xl border border-zinc-100/10 rounded-2xl p-6 space-y-4 shadow-2xl relative overflow-hidden">
+      <div className="absolute inset-x-0 -top-px h-px bg-gradient-to-r from-transparent via-white/10 to-transparent" />
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-white text-xs font-bold uppercase">Captcha Mining</h3>
+          <p className="text-[10px] text-zinc-500 font-mono">+{getSolveReward(rewardSchedule, difficulty).toFixed(4)} SOL per solve</p>
+        </div>
+        <div className="flex gap-1">
+          {DIFFICULTIES.map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setDifficulty(value)}
+              className={`px-2 py-1 text-[10px] font-bold rounded uppercase transition-colors ${difficulty === value ? 'bg-white text-black' : 'bg-zinc-800 text-white hover:bg-zinc-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex-1 h-20 bg-zinc-900 rounded-lg border border-zinc-800 flex items-center justify-center overflow-hidden">
+          {captcha ? (
+            <img
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(captcha.svg)}`}
+              alt="Captcha"
+              draggable={false}
+              className={`max-h-full max-w-full select-none ${isLoading ? 'opacity-30' : ''}`}
+            />
+          ) : (
+            <span className="text-[10px] text-zinc-500 uppercase">{isLoading ? 'Loading...' : 'Unavailable'}</span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={loadCaptcha}
+          disabled={isLoading}
+          title="New captcha"
+          className="p-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          <svg className={`w-4 h-4 text-white ${isLoading ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={solution}
+          autoComplete="off"
+          spellCheck={false}
+          onChange={(e) => setSolution(e.target.value.toUpperCase())}
+          placeholder="Type the characters"
+          className="w-full bg-black/40 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-white font-mono tracking-widest focus:border-zinc-700 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!captcha || !solution.trim() || isSubmitting}
+          className="neo-btn neo-btn-primary"
+        >
+          {isSubmitting ? '...' : 'Solve'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-zinc-800/10 border border-zinc-700/30 rounded-lg p-2">
+          <p className="text-xs text-zinc-400 font-medium text-center">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-2">
+          <p className="text-xs text-green-400 font-medium text-center">{success}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextCaptcha;
@@ -1,34 +1,44 @@
 import React from 'react';
-import { PayoutRecord } from '../types';
+import { PayoutRecord, PayoutStatus } from '../types';
 
 interface TransactionHistoryProps {
   history: PayoutRecord[];
 }
 
 const TransactionHistory: React.FC<TransactionHistoryProps> = ({ history }) => {
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: PayoutStatus) => {
     switch (status) {
-      case 'completed':
+      case 'finalized':
         return 'text-green-500';
-      case 'pending':
+      case 'confirmed':
+        return 'text-emerald-400';
+      case 'held':
+      case 'requested':
+      case 'signed':
+      case 'broadcast':
         return 'text-yellow-500';
       case 'failed':
+      case 'expired':
         return 'text-red-500';
       default:
         return 'text-zinc-500';
     }
   };
 
-  const getStatusBg = (status: string) => {
+  const getStatusLabel = (status: PayoutStatus) => {
     switch (status) {
-      case 'completed':
-        return 'bg-green-500/10 border-green-500/20';
-      case 'pending':
-        return 'bg-yellow-500/10 border-yellow-500/20';
+      case 'finalized':
+        return 'SUCCESS';
+      case 'held':
+        return 'AWAITING APPROVAL';
+      case 'broadcast':
+        return 'SENT';
+      case 'expired':
+        return 'EXPIRED (REFUNDED)';
       case 'failed':
-        return 'bg-red-500/10 border-red-500/20';
+        return 'FAILED (REFUNDED)';
       default:
-        return 'bg-zinc-500/10 border-zinc-500/20';
+        return status;
     }
   };
 
@@ -83,7 +93,7 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ history }) => {
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
                 <span className={`text-xs font-bold uppercase ${getStatusColor(record.status)}`}>
-                  {record.status === 'completed' ? 'SUCCESS' : record.status}
+                  {getStatusLabel(record.status)}
                 </span>
                 <span className="text-xs text-zinc-500">
                   {formatTimestamp(record.timestamp)}
@@ -102,10 +112,28 @@ const TransactionHistory: React.FC<TransactionHistoryProps> = ({ history }) => {
               {record.txHash && (
                 <div className="flex items-center gap-1">
                   <span className="text-zinc-500">Tx:</span>
-                  <span className="text-zinc-400 font-mono">{formatTxHash(record.txHash)}</span>
+                  {record.explorerUrl ? (
+                    <a
+                      href={record.explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-zinc-400 font-mono hover:text-white underline decoration-dotted transition-colors"
+                    >
+                      {formatTxHash(record.txHash)}
+                    </a>
+                  ) : (
+                    <span className="text-zinc-400 font-mono">{formatTxHash(record.txHash)}</span>
+                  )}
                 </div>
               )}
             </div>
+
+            {record.holdReason && record.status === 'held' && (
+              <p className="text-[10px] text-yellow-400/80 mt-2 break-words">{record.holdReason}</p>
+            )}
+            {record.error && (record.status === 'failed' || record.status === 'expired') && (
+              <p className="text-[10px] text-red-400/80 mt-2 break-words">{record.error}</p>
+            )}
           </div>
         ))}
       </div>
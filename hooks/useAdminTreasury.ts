@@ -0,0 +1,90 @@
+import { useState, useCallback, useEffect } from 'react';
+import { PayoutRecord } from '../types';
+import { apiRequest, ApiError } from '../utils/api';
+
+const REFRESH_INTERVAL = 10000; // 10 seconds
+
+interface AdminPayoutsResponse {
+  payouts: PayoutRecord[];
+  awaitingApproval: number;
+  volume24hSOL: number;
+}
+
+interface HealthResponse {
+  treasury?: string;
+  treasuryBalance?: number;
+}
+
+export type AdminPayoutAction = 'approve' | 'reject';
+
+/**
+ * Treasury data for the admin portal: the server's payout queue, 24h volume
+ * and live treasury balance, refreshed on an interval while an admin key is set.
+ */
+export const useAdminTreasury = (adminKey: string | null) => {
+  const [payouts, setPayouts] = useState<PayoutRecord[]>([]);
+  const [awaitingApproval, setAwaitingApproval] = useState(0);
+  const [volume24hSOL, setVolume24hSOL] = useState(0);
+  const [treasuryBalance, setTreasuryBalance] = useState<number | null>(null);
+  const [treasuryAddress, setTreasuryAddress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isUnauthorized, setIsUnauthorized] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!adminKey) return;
+
+    try {
+      const [queue, health] = await Promise.all([
+        apiRequest<AdminPayoutsResponse>('/api/admin/payouts', { headers: { 'X-Admin-Key': adminKey } }),
+        apiRequest<HealthResponse>('/api/health')
+      ]);
+      setPayouts(queue.payouts);
+      setAwaitingApproval(queue.awaitingApproval);
+      setVolume24hSOL(queue.volume24hSOL);
+      setTreasuryBalance(health.treasuryBalance ?? null);
+      setTreasuryAddress(health.treasury ?? null);
+      setIsUnauthorized(false);
+      setError(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) setIsUnauthorized(true);
+      setError(err instanceof Error ? err.message : 'Failed to load treasury data');
+    }
+  }, [adminKey]);
+
+  useEffect(() => {
+    if (!adminKey) return;
+    setIsUnauthorized(false);
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [adminKey, refresh]);
+
+  const actOnPayout = useCallback(async (id: string, action: AdminPayoutAction) => {
+    if (!adminKey) return;
+
+    try {
+      const result = await apiRequest<{ payout: PayoutRecord }>(`/api/admin/payouts/${id}/${action}`, {
+        method: 'POST',
+        body: {},
+        headers: { 'X-Admin-Key': adminKey }
+      });
+      setPayouts(prev => prev.map(p => (p.id === id ? result.payout : p)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} payout`);
+    }
+    refresh();
+  }, [adminKey, refresh]);
+
+  return {
+    payouts,
+    awaitingApproval,
+    volume24hSOL,
+    treasuryBalance,
+    treasuryAddress,
+    error,
+    isUnauthorized,
+    refresh,
+    actOnPayout
+  };
+};
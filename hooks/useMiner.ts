@@ -1,19 +1,53 @@
 
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { MinerStatus, MinerConfig, MiningStats, PayoutRecord, CaptchaDifficulty } from '../types';
-
-const TAB_MINING_REWARD = 0.000012;
-const TAB_MINING_INTERVAL = 1500; // 1.5 seconds
-
-const REWARDS = {
-  [CaptchaDifficulty.EASY]: 0.002,
-  [CaptchaDifficulty.MEDIUM]: 0.005,
-  [CaptchaDifficulty.HARD]: 0.012
-};
-
-export const useMiner = (initialConfig: MinerConfig) => {
+import { MinerStatus, MinerConfig, MiningStats, PayoutRecord, CaptchaDifficulty, CaptchaImage, CaptchaSolveResult, LedgerSummary, RewardSource, RunTicket, RunResult, GhostRun, GhostSource } from '../types';
+import { RunLog } from '../shared/runner/replay';
+import { RewardSchedule } from '../shared/rewards';
+import { ApiError } from '../utils/api';
+import { authRequest } from '../utils/session';
+import { createHashPool, HashPool } from '../utils/hashPool';
+import { useRealtimeEvent } from './useRealtime';
+import type { GovernorDecision } from './useResourceGovernor';
+
+const MIN_WITHDRAWAL = 0.03;
+const MAX_WITHDRAWAL = 10;
+// Tab mining runs on the visitor's CPU, so it stays off until they have agreed to it here
+const HASHING_CONSENT_KEY = 'molt_runner_hashing_consent';
+
+interface RewardClaim {
+  source: RewardSource;
+  // A share found under the current mining challenge (see shared/mining.ts)
+  nonce: number;
+}
+
+interface RewardClaimResponse extends LedgerSummary {
+  // Challenge for the next claim
+  challenge: number;
+}
+
+interface RunFinishResponse extends LedgerSummary {
+  held: boolean;
+  run: { distance: number };
+  rewardSOL: number;
+}
+
+interface WithdrawResponse {
+  success: boolean;
+  payout: PayoutRecord;
+  balanceSOL: number;
+}
+
+const upsertPayout = (records: PayoutRecord[], payout: PayoutRecord) =>
+  records.some(p => p.id === payout.id)
+    ? records.map(p => (p.id === payout.id ? payout : p))
+    : [payout, ...records];
+
+export const useMiner = (initialConfig: MinerConfig, rewardSchedule: RewardSchedule, governor: GovernorDecision) => {
+  const tabMiningInterval = rewardSchedule.tabMining.intervalMs;
   const [isCaptchaMining, setIsCaptchaMining] = useState(false);
   const [isTabMining, setIsTabMining] = useState(false);
+  const [hashingConsent, setHashingConsentState] = useState(() => localStorage.getItem(HASHING_CONSENT_KEY) === 'granted');
+  const hashPoolRef = useRef<HashPool | null>(null);
   // Track the currently loaded address to prevent overwriting data during transitions
   const loadedAddressRef = useRef<string | null>(initialConfig.payoutAddress || null);
 
@@ -24,8 +58,11 @@ export const useMiner = (initialConfig: MinerConfig) => {
     if (saved) {
       try {
         const parsed = JSON.parse(saved);
+        // Balance always comes from the server ledger, never from storage
         return {
           ...parsed,
+          pendingSOL: 0,
+          pendingXMR: 0,
           hashRate: 0,
           uptime: 0
         };
@@ -44,27 +81,29 @@ export const useMiner = (initialConfig: MinerConfig) => {
     };
   });
 
-  const [history, setHistory] = useState<PayoutRecord[]>(() => {
-    const key = initialConfig.payoutAddress ? `molt_runner_history_${initialConfig.payoutAddress}` : 'molt_runner_history';
-    const saved = localStorage.getItem(key);
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (e) {
-        console.error('Failed to load history', e);
-      }
-    }
-    return [];
-  });
-  const solveTimestamps = useRef<number[]>([]);
-  const cooldownRef = useRef<boolean>(false);
+  // Payout history is owned by the server's payout queue
+  const [history, setHistory] = useState<PayoutRecord[]>([]);
+
+  // Tab mining held back by the resource governor, or null while it runs as configured
+  const throttleReason = isTabMining ? governor.reason : null;
+  // The pool is stopped outright while the governor has paused it
+  const isHashing = isTabMining && !governor.paused;
+  const throttle = governor.minThrottle === null ? initialConfig.throttle : Math.max(initialConfig.throttle, governor.minThrottle);
+  // Read when the pool starts, so starting it does not depend on the settings effect
+  const poolSettingsRef = useRef({ threads: initialConfig.threads, throttle });
+  poolSettingsRef.current = { threads: initialConfig.threads, throttle };
+  // Challenge the server expects the next tab mining claim's share to be found under,
+  // and the latest share the workers have found for it
+  const challengeRef = useRef<number | null>(null);
+  const shareRef = useRef<number | null>(null);
 
   const status = useMemo(() => {
+    if (throttleReason) return MinerStatus.THROTTLED;
     if (isCaptchaMining && isTabMining) return MinerStatus.DUAL_MINING;
     if (isCaptchaMining) return MinerStatus.MINING;
     if (isTabMining) return MinerStatus.TAB_MINING;
     return MinerStatus.IDLE;
-  }, [isCaptchaMining, isTabMining]);
+  }, [isCaptchaMining, isTabMining, throttleReason]);
 
   // Effect to reload data when address changes
   useEffect(() => {
@@ -76,7 +115,7 @@ export const useMiner = (initialConfig: MinerConfig) => {
     if (savedStats) {
       try {
         const parsed = JSON.parse(savedStats);
-        setStats({ ...parsed, hashRate: 0, uptime: 0 });
+        setStats({ ...parsed, pendingSOL: 0, pendingXMR: 0, hashRate: 0, uptime: 0 });
       } catch {
         setStats({
           hashRate: 0, totalHashes: 0, acceptedShares: 0,
@@ -91,219 +130,340 @@ export const useMiner = (initialConfig: MinerConfig) => {
       });
     }
 
-    // Load History
-    const historyKey = `molt_runner_history_${initialConfig.payoutAddress}`;
-    const savedHistory = localStorage.getItem(historyKey);
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch {
-        setHistory([]);
-      }
-    } else {
-      setHistory([]);
-    }
+    setHistory([]);
 
     loadedAddressRef.current = initialConfig.payoutAddress;
   }, [initialConfig.payoutAddress]);
 
+  const applyBalance = useCallback((address: string, balanceSOL: number) => {
+    // Ignore responses that arrive after the user switched wallets
+    if (loadedAddressRef.current !== address) return;
+    setStats(prev => ({ ...prev, pendingSOL: balanceSOL, pendingXMR: balanceSOL / 1.45 }));
+  }, []);
+
+  const refreshBalance = useCallback(async () => {
+    const address = initialConfig.payoutAddress;
+    if (!address) return;
+    try {
+      const summary = await authRequest<LedgerSummary>('/api/ledger');
+      applyBalance(address, summary.balanceSOL);
+    } catch (error) {
+      console.error('Failed to load balance', error);
+    }
+  }, [initialConfig.payoutAddress, applyBalance]);
+
+  // Load the server-side balance whenever the address changes
   useEffect(() => {
-    if (!initialConfig.payoutAddress) return;
-    // Prevent saving if we haven't loaded this address's data yet
-    if (loadedAddressRef.current !== initialConfig.payoutAddress) return;
+    refreshBalance();
+  }, [refreshBalance]);
 
-    localStorage.setItem(`molt_runner_stats_${initialConfig.payoutAddress}`, JSON.stringify(stats));
-  }, [stats, initialConfig.payoutAddress]);
+  // Load payout history; its state changes then arrive over the shared socket
+  useEffect(() => {
+    const address = initialConfig.payoutAddress;
+    if (!address) return;
+
+    authRequest<{ payouts: PayoutRecord[] }>('/api/payouts')
+      .then(result => {
+        if (loadedAddressRef.current === address) setHistory(result.payouts);
+      })
+      .catch(error => console.error('Failed to load payouts', error));
+  }, [initialConfig.payoutAddress]);
+
+  useRealtimeEvent('payout_update', (payout) => {
+    if (payout.address !== initialConfig.payoutAddress) return;
+    setHistory(prev => upsertPayout(prev, payout));
+    // Failed and expired payouts are refunded to the ledger
+    if (payout.status === 'failed' || payout.status === 'expired') refreshBalance();
+  });
+
+  // Points the workers at a new challenge; shares found under the old one cannot be claimed
+  const applyChallenge = useCallback((challenge: number) => {
+    challengeRef.current = challenge;
+    shareRef.current = null;
+    hashPoolRef.current?.setChallenge(challenge);
+  }, []);
+
+  const loadChallenge = useCallback(async () => {
+    try {
+      const { challenge } = await authRequest<{ challenge: number }>('/api/mining/challenge');
+      applyChallenge(challenge);
+    } catch (error) {
+      console.error('Failed to load mining challenge', error);
+    }
+  }, [applyChallenge]);
+
+  // Report a rewarded action with its proof of work; the server decides the amount and
+  // returns the new balance and the next challenge
+  const claimReward = useCallback(async (claim: RewardClaim) => {
+    const address = initialConfig.payoutAddress;
+    if (!address) return;
+    try {
+      const result = await authRequest<RewardClaimResponse>('/api/ledger/credit', {
+        method: 'POST',
+        body: claim
+      });
+      applyBalance(address, result.balanceSOL);
+      applyChallenge(result.challenge);
+    } catch (error) {
+      console.error(`Reward claim (${claim.source}) rejected:`, error);
+      // The challenge may be stale, e.g. after a server restart
+      loadChallenge();
+    }
+  }, [initialConfig.payoutAddress, applyBalance, applyChallenge, loadChallenge]);
 
   useEffect(() => {
     if (!initialConfig.payoutAddress) return;
     // Prevent saving if we haven't loaded this address's data yet
     if (loadedAddressRef.current !== initialConfig.payoutAddress) return;
 
-    localStorage.setItem(`molt_runner_history_${initialConfig.payoutAddress}`, JSON.stringify(history));
-  }, [history, initialConfig.payoutAddress]);
+    // The balance is owned by the server, so it is not persisted locally
+    const { pendingSOL, pendingXMR, ...localStats } = stats;
+    localStorage.setItem(`molt_runner_stats_${initialConfig.payoutAddress}`, JSON.stringify(localStats));
+  }, [stats, initialConfig.payoutAddress]);
 
+  // Tab mining: hash rate and hash count come straight from the worker pool's counters.
+  // The pool lives exactly as long as hashing is on; nothing else may stop it
   useEffect(() => {
-    if (!isTabMining) {
-      if (!isCaptchaMining) {
-        setStats(prev => ({ ...prev, hashRate: 0 }));
-      }
+    if (!isHashing) {
+      setStats(prev => ({ ...prev, hashRate: 0 }));
       return;
     }
 
+    const pool = hashPoolRef.current || (hashPoolRef.current = createHashPool());
+    const unsubscribe = pool.onReport(({ hashes, shares, challenge, share, hashRate }) => {
+      if (share !== null && challenge === challengeRef.current) shareRef.current = share;
+      setStats(prev => ({
+        ...prev,
+        hashRate,
+        totalHashes: prev.totalHashes + hashes,
+        acceptedShares: prev.acceptedShares + shares
+      }));
+    });
+    pool.run(poolSettingsRef.current);
+    loadChallenge();
+
+    return () => {
+      unsubscribe();
+      pool.stop();
+      challengeRef.current = null;
+      shareRef.current = null;
+    };
+  }, [isHashing, loadChallenge]);
+
+  // Thread count and throttle changes apply to the running pool without a restart
+  useEffect(() => {
+    if (!isHashing || !hashPoolRef.current) return;
+    hashPoolRef.current.run({ threads: initialConfig.threads, throttle });
+  }, [isHashing, initialConfig.threads, throttle]);
+
+  // Rewards follow completed work: an interval is only claimed once the workers have
+  // found a share for it, which the server checks before crediting
+  useEffect(() => {
+    if (!isHashing) return;
+
     const ticker = setInterval(() => {
-      setStats(prev => {
-        const newSOL = prev.pendingSOL + TAB_MINING_REWARD;
-        return {
-          ...prev,
-          pendingSOL: newSOL,
-          pendingXMR: newSOL / 1.45,
-          uptime: prev.uptime + 1.5,
-          hashRate: prev.hashRate > 400 ? prev.hashRate : 450 + (Math.random() * 50),
-          totalHashes: prev.totalHashes + 15
-        };
-      });
-    }, TAB_MINING_INTERVAL);
+      setStats(prev => ({ ...prev, uptime: prev.uptime + tabMiningInterval / 1000 }));
+      const nonce = shareRef.current;
+      if (nonce === null) return;
+      shareRef.current = null;
+      claimReward({ source: 'tab_mining', nonce });
+    }, tabMiningInterval);
 
     return () => clearInterval(ticker);
-  }, [isTabMining, isCaptchaMining]);
-
-  const verifyCaptcha = useCallback(async (solution: string, expected: string) => {
-    if (cooldownRef.current) return { success: false, error: 'Rate limit exceeded (3s)' };
-
-    return new Promise<{ success: boolean; error?: string }>((resolve) => {
-      setTimeout(() => {
-        if (solution.toLowerCase() === expected.toLowerCase()) {
-          cooldownRef.current = true;
-          setTimeout(() => { cooldownRef.current = false; }, 3000);
-          resolve({ success: true });
-        } else {
-          resolve({ success: false, error: 'Invalid captcha' });
-        }
-      }, 400);
-    });
+  }, [isHashing, claimReward, tabMiningInterval]);
+
+  const onSolveSuccess = useCallback(() => {
+    setStats(prev => ({
+      ...prev,
+      solves: prev.solves + 1,
+      acceptedShares: prev.acceptedShares + 1
+    }));
   }, []);
 
-  const onSolveSuccess = useCallback((difficulty: CaptchaDifficulty) => {
-    const now = Date.now();
-    solveTimestamps.current.push(now);
-    solveTimestamps.current = solveTimestamps.current.filter(t => now - t < 10000);
-
-    const reward = REWARDS[difficulty] || 0.005;
-    const solvesPerSec = solveTimestamps.current.length / 10;
-    const currentHashrate = (solvesPerSec * 1000) + (isTabMining ? 450 : 0);
+  // Captchas are rendered and checked by the server; the answer never reaches the browser
+  const requestCaptcha = useCallback(async (difficulty: CaptchaDifficulty): Promise<CaptchaImage | null> => {
+    if (!initialConfig.payoutAddress) return null;
+    try {
+      return await authRequest<CaptchaImage>('/api/captcha', {
+        method: 'POST',
+        body: { difficulty }
+      });
+    } catch (error) {
+      console.error('Failed to load captcha', error);
+      return null;
+    }
+  }, [initialConfig.payoutAddress]);
 
-    setStats(prev => {
-      const newSOL = prev.pendingSOL + reward;
-      return {
-        ...prev,
-        solves: prev.solves + 1,
-        acceptedShares: prev.acceptedShares + 1,
-        totalHashes: prev.totalHashes + 100,
-        pendingSOL: newSOL,
-        pendingXMR: newSOL / 1.45,
-        hashRate: currentHashrate
-      };
-    });
-  }, [isTabMining]);
+  const solveCaptcha = useCallback(async (captchaId: string, solution: string): Promise<CaptchaSolveResult> => {
+    const address = initialConfig.payoutAddress;
+    try {
+      const result = await authRequest<LedgerSummary & { rewardSOL: number }>(`/api/captcha/${captchaId}/solve`, {
+        method: 'POST',
+        body: { solution }
+      });
+      if (address) applyBalance(address, result.balanceSOL);
+      onSolveSuccess();
+      return { success: true, rewardSOL: result.rewardSOL };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return { success: false, error: error.message, expired: error.status === 404 || error.status === 410 };
+      }
+      return { success: false, error: 'Network error. Please try again.' };
+    }
+  }, [initialConfig.payoutAddress, applyBalance, onSolveSuccess]);
 
-  const requestWithdrawal = useCallback(async (): Promise<{ success: boolean; error?: string; txHash?: string }> => {
-    if (stats.pendingSOL < 0.03) {
-      return { success: false, error: 'Minimum withdrawal is 0.03 SOL' };
+  const requestWithdrawal = useCallback(async (): Promise<{ success: boolean; error?: string; txHash?: string; holdReason?: string }> => {
+    if (stats.pendingSOL < MIN_WITHDRAWAL) {
+      return { success: false, error: `Minimum withdrawal is ${MIN_WITHDRAWAL} SOL` };
     }
 
-    if (!initialConfig.payoutAddress) {
+    const address = initialConfig.payoutAddress;
+    if (!address) {
       return { success: false, error: 'No payout address configured' };
     }
 
-    const amountToWithdraw = stats.pendingSOL;
+    const amountToWithdraw = Math.min(stats.pendingSOL, MAX_WITHDRAWAL);
 
-    // Create pending payout record
-    const pendingPayout: PayoutRecord = {
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: Date.now(),
-      amountSOL: amountToWithdraw,
-      status: 'pending',
-      txHash: '',
-      address: initialConfig.payoutAddress
-    };
-
-    setHistory(prev => [pendingPayout, ...prev]);
-
-    // Reset pending balance IMMEDIATELY to prevent double-spend
-    setStats(prev => ({ ...prev, pendingSOL: 0, pendingXMR: 0 }));
+    // Deduct locally IMMEDIATELY to prevent double-submits; the server ledger has the final say
+    setStats(prev => {
+      const newSOL = Math.max(0, prev.pendingSOL - amountToWithdraw);
+      return { ...prev, pendingSOL: newSOL, pendingXMR: newSOL / 1.45 };
+    });
 
-    // SIMULATED WITHDRAWAL (Mock)
     try {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      const mockTxHash = '4' + Array(87).fill(0).map(() => '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'[Math.floor(Math.random() * 58)]).join('');
+      // The server debits the ledger and queues the payout to the wallet bound to our session.
+      // Signing, broadcast and confirmation arrive later as payout_update events.
+      const result = await authRequest<WithdrawResponse>('/api/withdraw', {
+        method: 'POST',
+        body: { amountSOL: amountToWithdraw }
+      });
 
-      // Update payout record with real transaction hash
-      setHistory(prev => prev.map(p =>
-        p.id === pendingPayout.id
-          ? { ...p, status: 'completed' as const, txHash: mockTxHash }
-          : p
-      ));
+      setHistory(prev => upsertPayout(prev, result.payout));
+      applyBalance(address, result.balanceSOL);
 
-      return { success: true, txHash: mockTxHash };
+      return { success: true, holdReason: result.payout.holdReason };
     } catch (error) {
       console.error('Withdrawal error:', error);
-      // Update payout record to failed
-      setHistory(prev => prev.map(p =>
-        p.id === pendingPayout.id
-          ? { ...p, status: 'failed' as const }
-          : p
-      ));
-      return { success: false, error: 'Network error. Please try again.' };
+      // Nothing was debited, so reload the real balance
+      refreshBalance();
+      return { success: false, error: error instanceof ApiError ? error.message : 'Network error. Please try again.' };
     }
-  }, [stats.pendingSOL, initialConfig.payoutAddress]);
+  }, [stats.pendingSOL, initialConfig.payoutAddress, applyBalance, refreshBalance]);
+
+  const redeemCode = useCallback(async (code: string): Promise<{ success: boolean; amountSOL?: number; error?: string }> => {
+    const address = initialConfig.payoutAddress;
+    if (!address) {
+      return { success: false, error: 'Connect your wallet to redeem a code' };
+    }
+    try {
+      const result = await authRequest<LedgerSummary & { amount: number }>('/api/redeem', {
+        method: 'POST',
+        body: { code }
+      });
+      applyBalance(address, result.balanceSOL);
+      return { success: true, amountSOL: result.amount };
+    } catch (error) {
+      return { success: false, error: error instanceof ApiError ? error.message : 'Network error. Please try again.' };
+    }
+  }, [initialConfig.payoutAddress, applyBalance]);
 
   const toggleMining = useCallback(() => {
     setIsCaptchaMining(prev => !prev);
   }, []);
 
   const toggleTabMining = useCallback(() => {
+    if (!hashingConsent) return;
     setIsTabMining(prev => !prev);
-  }, []);
+  }, [hashingConsent]);
 
-  const addPendingBalance = useCallback((amount: number) => {
-    setStats(prev => {
-      const newSOL = prev.pendingSOL + amount;
-      return {
-        ...prev,
-        pendingSOL: newSOL,
-        pendingXMR: newSOL / 1.45
-      };
-    });
+  // Withdrawing consent stops any hashing straight away
+  const setHashingConsent = useCallback((granted: boolean) => {
+    if (granted) {
+      localStorage.setItem(HASHING_CONSENT_KEY, 'granted');
+    } else {
+      localStorage.removeItem(HASHING_CONSENT_KEY);
+      setIsTabMining(false);
+    }
+    setHashingConsentState(granted);
   }, []);
 
-  const onDistanceMilestone = useCallback((distance: number) => {
-    let reward = 0;
-
-    // Exact milestone rewards as per spec
-    // Note: This function handles the *increment* for that specific milestone, not total.
-    // The prompt says: "When a player hits 200m, they get the 200m reward".
-    // Does "200m reward" mean the specific bounty for hitting 200m? Yes.
-    // "add +0.0056 SOL to the total reward" implies accumulation.
-
-    if (distance === 100) reward = 0.00081;
-    else if (distance === 200) reward = 0.0011;
-    else if (distance === 300) reward = 0.0012;
-    else if (distance === 400) reward = 0.0016;
-    else if (distance === 500) reward = 0.0032;
-    else if (distance > 500 && distance % 100 === 0) {
-      reward = 0.0016;
+  // Runs are played on a server-issued seed; null means the run is unrewarded practice
+  const startRun = useCallback(async (difficulty: CaptchaDifficulty): Promise<RunTicket | null> => {
+    if (!initialConfig.payoutAddress) return null;
+    try {
+      return await authRequest<RunTicket>('/api/runs', {
+        method: 'POST',
+        body: { difficulty }
+      });
+    } catch (error) {
+      console.error('Failed to start run', error);
+      return null;
     }
+  }, [initialConfig.payoutAddress]);
 
-    if (reward > 0) {
-      setStats(prev => {
-        const newSOL = prev.pendingSOL + reward;
-        return {
-          ...prev,
-          pendingSOL: newSOL,
-          pendingXMR: newSOL / 1.45,
-          // Add fake hashrate bump
-          hashRate: prev.hashRate + 50
-        };
+  // Daily runs share one server-picked seed and difficulty for the whole UTC day
+  const startDailyRun = useCallback(async (): Promise<RunTicket | null> => {
+    if (!initialConfig.payoutAddress) return null;
+    try {
+      return await authRequest<RunTicket>('/api/daily/runs', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to start daily run', error);
+      return null;
+    }
+  }, [initialConfig.payoutAddress]);
+
+  // The server replays the run's inputs and credits milestone and token rewards only if it checks out
+  const finishRun = useCallback(async (runId: string, log: RunLog): Promise<RunResult> => {
+    const address = initialConfig.payoutAddress;
+    try {
+      const result = await authRequest<RunFinishResponse>(`/api/runs/${runId}/finish`, {
+        method: 'POST',
+        body: log
       });
+      if (address) applyBalance(address, result.balanceSOL);
+      return { verified: true, held: result.held, distance: result.run.distance, rewardSOL: result.rewardSOL };
+    } catch (error) {
+      console.error('Run was not verified:', error);
+      return {
+        verified: false,
+        distance: 0,
+        rewardSOL: 0,
+        error: error instanceof ApiError ? error.message : 'Network error'
+      };
     }
-  }, []);
+  }, [initialConfig.payoutAddress, applyBalance]);
+
+  const loadGhost = useCallback(async (source: GhostSource): Promise<GhostRun | null> => {
+    if (!initialConfig.payoutAddress) return null;
+    try {
+      const { ghost } = await authRequest<{ ghost: GhostRun }>(`/api/ghosts/${source}`);
+      return ghost;
+    } catch (error) {
+      console.error('Failed to load ghost', error);
+      return null;
+    }
+  }, [initialConfig.payoutAddress]);
 
   return {
     status,
+    throttleReason,
     isCaptchaMining,
     isTabMining,
     stats,
     history,
-    verifyCaptcha,
-    onSolveSuccess,
-    onDistanceMilestone,
-    addPendingBalance,
+    requestCaptcha,
+    solveCaptcha,
+    startRun,
+    startDailyRun,
+    finishRun,
+    loadGhost,
+    refreshBalance,
     toggleMining,
     toggleTabMining,
+    hashingConsent,
+    setHashingConsent,
     requestWithdrawal,
+    redeemCode,
     setHistory
   };
 };
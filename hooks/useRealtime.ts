@@ -0,0 +1,37 @@
+import { useContext, useEffect, useRef, useSyncExternalStore } from 'react';
+import { RealtimeContext } from '../components/RealtimeProvider';
+import type { RealtimeClient, ConnectionStatus } from '../utils/realtime';
+import type { ServerToClientEvents } from '../shared/protocol';
+
+/**
+ * The shared realtime client; components must sit inside RealtimeProvider
+ */
+export const useRealtime = (): RealtimeClient => {
+  const client = useContext(RealtimeContext);
+  if (!client) throw new Error('useRealtime must be used inside RealtimeProvider');
+  return client;
+};
+
+/**
+ * Live connection status, re-rendering whenever it changes
+ */
+export const useConnectionStatus = (): ConnectionStatus => {
+  const client = useRealtime();
+  return useSyncExternalStore(client.subscribeStatus, client.getStatus);
+};
+
+/**
+ * Listens to a server event for as long as the component is mounted
+ * The latest handler is always called, so it does not need to be memoised
+ */
+export const useRealtimeEvent = <E extends keyof ServerToClientEvents>(event: E, handler: ServerToClientEvents[E]) => {
+  const client = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const listener = ((...args: Parameters<ServerToClientEvents[E]>) =>
+      (handlerRef.current as (...args: Parameters<ServerToClientEvents[E]>) => void)(...args)) as ServerToClientEvents[E];
+    return client.on(event, listener);
+  }, [client, event]);
+};
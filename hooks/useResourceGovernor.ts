@@ -0,0 +1,119 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { MAX_THROTTLE } from '../utils/hashPool';
+
+export interface GovernorDecision {
+  // Hashing should stop for now
+  paused: boolean;
+  // Lowest throttle (percent idle) to run at; null leaves the user's setting alone
+  minThrottle: number | null;
+  // Why tab mining is held back; null when it is not
+  reason: string | null;
+}
+
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+const LOW_BATTERY_LEVEL = 0.2;
+const BACKGROUND_THROTTLE = 50;
+// At 60hz a frame this long means at least two were dropped
+const JANK_FRAME_MS = 50;
+// Longer gaps are the tab being frozen or in the background, not jank
+const MAX_COUNTED_FRAME_MS = 1000;
+// This many long frames within the window count as jank
+const JANK_FRAMES = 5;
+const JANK_WINDOW_MS = 2000;
+// Smooth time needed before hashing resumes
+const JANK_RECOVERY_MS = 10 * 1000;
+
+/**
+ * Keeps tab mining from getting in the way of the device it runs on. Watches the battery
+ * (where the browser has the Battery Status API), whether the tab is visible, and the frame
+ * times the runner reports, and decides how far tab mining backs off:
+ *
+ *   runner dropping frames  -> pause hashing until the runner has been smooth for a while
+ *   battery under 20%       -> throttle to the maximum while unplugged
+ *   tab in the background   -> throttle to at least half
+ *
+ * Each condition clears by itself (plugging in, coming back to the tab, smooth frames), and
+ * tab mining then runs on the user's own settings again.
+ */
+export const useResourceGovernor = () => {
+  const [battery, setBattery] = useState<{ level: number; charging: boolean } | null>(null);
+  const [hidden, setHidden] = useState(() => document.visibilityState === 'hidden');
+  const [janky, setJanky] = useState(false);
+  const longFrames = useRef<number[]>([]);
+  const lastJankAt = useRef(0);
+
+  useEffect(() => {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+    if (!nav.getBattery) return;
+
+    let manager: BatteryManager | null = null;
+    let cancelled = false;
+    const update = () => {
+      if (manager) setBattery({ level: manager.level, charging: manager.charging });
+    };
+
+    nav.getBattery()
+      .then(result => {
+        if (cancelled) return;
+        manager = result;
+        update();
+        manager.addEventListener('levelchange', update);
+        manager.addEventListener('chargingchange', update);
+      })
+      .catch(() => {
+        // Not allowed here: the battery rule simply never applies
+      });
+
+    return () => {
+      cancelled = true;
+      manager?.removeEventListener('levelchange', update);
+      manager?.removeEventListener('chargingchange', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleVisibility = () => setHidden(document.visibilityState === 'hidden');
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Called by the runner with every frame's duration, so it only keeps a few timestamps
+  const reportFrame = useCallback((frameMs: number) => {
+    if (frameMs < JANK_FRAME_MS || frameMs > MAX_COUNTED_FRAME_MS || document.visibilityState === 'hidden') return;
+    const now = performance.now();
+    longFrames.current = longFrames.current.filter(time => now - time < JANK_WINDOW_MS);
+    longFrames.current.push(now);
+    if (longFrames.current.length >= JANK_FRAMES) {
+      lastJankAt.current = now;
+      setJanky(true);
+    }
+  }, []);
+
+  // Jank clears once there has been none for the recovery time, whether or not the runner is still going
+  useEffect(() => {
+    if (!janky) return;
+    const timer = setInterval(() => {
+      if (performance.now() - lastJankAt.current >= JANK_RECOVERY_MS) setJanky(false);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [janky]);
+
+  const decision = useMemo((): GovernorDecision => {
+    if (janky) {
+      return { paused: true, minThrottle: null, reason: 'Paused while the runner is dropping frames' };
+    }
+    if (battery && !battery.charging && battery.level < LOW_BATTERY_LEVEL) {
+      return { paused: false, minThrottle: MAX_THROTTLE, reason: `Battery low (${Math.round(battery.level * 100)}%)` };
+    }
+    if (hidden) {
+      return { paused: false, minThrottle: BACKGROUND_THROTTLE, reason: 'Slowed while the tab is in the background' };
+    }
+    return { paused: false, minThrottle: null, reason: null };
+  }, [janky, battery, hidden]);
+
+  return { ...decision, reportFrame };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { apiRequest } from '../utils/api';
+import { RewardSchedule, DEFAULT_REWARD_SCHEDULE } from '../shared/rewards';
+
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+interface RewardScheduleResponse {
+  schedule: RewardSchedule;
+}
+
+/**
+ * The server's live reward schedule, refreshed on an interval so amount changes show up
+ * without a reload. Falls back to the built-in defaults until the server answers; the
+ * server always credits from its own copy, so this is only used for display and pacing.
+ */
+export const useRewardSchedule = () => {
+  const [schedule, setSchedule] = useState<RewardSchedule>(DEFAULT_REWARD_SCHEDULE);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const data = await apiRequest<RewardScheduleResponse>('/api/rewards');
+        if (cancelled) return;
+        setSchedule(prev => (prev.version === data.schedule.version ? prev : data.schedule));
+      } catch (err) {
+        console.warn('Failed to load reward schedule', err);
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return schedule;
+};
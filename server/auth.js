@@ -0,0 +1,141 @@
+/**
+ * Wallet Authentication
+ * Challenge/response login: the server issues a nonce, the client signs it with
+ * its Solana keypair, and a verified ed25519 signature earns a session token.
+ * REST routes and socket handlers act only on the address bound to that token.
+ */
+
+import crypto from 'crypto';
+import nacl from 'tweetnacl';
+import { PublicKey } from '@solana/web3.js';
+import { decodeBase58 } from './base58.js';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const challenges = new Map(); // nonce -> { address, message, expiresAt }
+const sessions = new Map(); // token -> { address, expiresAt }
+
+const pruneExpired = (map) => {
+    const now = Date.now();
+    for (const [key, value] of map) {
+        if (value.expiresAt <= now) map.delete(key);
+    }
+};
+
+setInterval(() => {
+    pruneExpired(challenges);
+    pruneExpired(sessions);
+}, 60 * 1000).unref();
+
+/**
+ * Creates a single-use sign-in challenge for an address
+ */
+export function issueChallenge(address) {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const message = [
+        'Sign in to GOYIM RUNNER',
+        `Address: ${address}`,
+        `Nonce: ${nonce}`,
+        `Issued: ${new Date().toISOString()}`,
+    ].join('\n');
+
+    challenges.set(nonce, { address, message, expiresAt: Date.now() + CHALLENGE_TTL_MS });
+    return { nonce, message };
+}
+
+/**
+ * Verifies a signed challenge and opens a session
+ * Returns null when the nonce is unknown, expired, or the signature does not match
+ */
+export function verifyChallenge(address, nonce, signature) {
+    const challenge = challenges.get(nonce);
+    // Nonces are single-use, even when verification fails
+    challenges.delete(nonce);
+
+    if (!challenge || challenge.expiresAt <= Date.now() || challenge.address !== address) return null;
+
+    let valid = false;
+    try {
+        valid = nacl.sign.detached.verify(
+            new TextEncoder().encode(challenge.message),
+            decodeBase58(signature),
+            new PublicKey(address).toBytes()
+        );
+    } catch {
+        valid = false;
+    }
+    if (!valid) return null;
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = Date.now() + SESSION_TTL_MS;
+    sessions.set(token, { address, expiresAt });
+    return { token, address, expiresAt };
+}
+
+/**
+ * Address bound to a session token, or null if the token is invalid or expired
+ */
+export function getSessionAddress(token) {
+    if (!token || typeof token !== 'string') return null;
+    const session = sessions.get(token);
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+        sessions.delete(token);
+        return null;
+    }
+    return session.address;
+}
+
+/**
+ * Ends a session
+ */
+export function revokeSession(token) {
+    sessions.delete(token);
+}
+
+/**
+ * Express middleware requiring a Bearer session token
+ * Sets req.address to the authenticated wallet
+ */
+export function requireAuth(req, res, next) {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+    const address = getSessionAddress(token);
+
+    if (!address) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    req.address = address;
+    req.sessionToken = token;
+    next();
+}
+
+/**
+ * Express middleware requiring the operator's admin key in the X-Admin-Key header
+ */
+export function requireAdmin(req, res, next) {
+    if (!process.env.ADMIN_API_KEY) {
+        return res.status(503).json({ success: false, error: 'Admin access is not configured on this server.' });
+    }
+    if (!isAdminKey(req.headers['x-admin-key'])) {
+        return res.status(401).json({ success: false, error: 'Invalid admin key' });
+    }
+    next();
+}
+
+/**
+ * Whether a value is the operator's admin key; always false when none is configured
+ */
+export function isAdminKey(provided) {
+    const adminKey = process.env.ADMIN_API_KEY;
+    return Boolean(adminKey) && typeof provided === 'string' && safeEqual(provided, adminKey);
+}
+
+// Constant-time comparison so the key cannot be guessed byte by byte
+const safeEqual = (a, b) => {
+    const hashA = crypto.createHash('sha256').update(a).digest();
+    const hashB = crypto.createHash('sha256').update(b).digest();
+    return crypto.timingSafeEqual(hashA, hashB);
+};
@@ -0,0 +1,47 @@
+/**
+ * Base58 encoder/decoder (Solana keys and signatures)
+ */
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE = BigInt(58);
+
+export function decodeBase58(str) {
+    if (!str || str.length === 0) return new Uint8Array();
+    let leadingZeros = 0;
+    for (const char of str) {
+        if (char === '1') leadingZeros++;
+        else break;
+    }
+    let num = BigInt(0);
+    for (const char of str) {
+        const index = ALPHABET.indexOf(char);
+        if (index === -1) throw new Error(`Invalid Base58 character: ${char}`);
+        num = num * BASE + BigInt(index);
+    }
+    const bytes = [];
+    while (num > 0) {
+        bytes.unshift(Number(num % BigInt(256)));
+        num = num / BigInt(256);
+    }
+    const result = new Uint8Array(leadingZeros + bytes.length);
+    result.set(bytes, leadingZeros);
+    return result;
+}
+
+export function encodeBase58(bytes) {
+    if (!bytes || bytes.length === 0) return '';
+    let num = BigInt(0);
+    for (const byte of bytes) {
+        num = num * BigInt(256) + BigInt(byte);
+    }
+    let result = '';
+    while (num > 0) {
+        result = ALPHABET[Number(num % BASE)] + result;
+        num = num / BASE;
+    }
+    for (const byte of bytes) {
+        if (byte === 0) result = '1' + result;
+        else break;
+    }
+    return result;
+}
@@ -0,0 +1,114 @@
+/**
+ * Proof-of-Human Scoring
+ * Behavioural analysis of a replayed run. A script pressing Space at the perfect moment
+ * plays the runner flawlessly, but it does not play it like a person: its timing is too
+ * consistent, its reactions too late and exact, and it never fumbles a key.
+ *
+ * Each run gets a score between 0 and 1 and a verdict:
+ *   pass    -> rewards credited in full
+ *   reduced -> rewards credited at REDUCED_REWARD_FACTOR
+ *   held    -> nothing credited until an admin releases the run
+ */
+
+import { CHARACTER_SIZE } from '../shared/runner/engine.ts';
+
+// Timing statistics need a few jumps before they mean anything
+const MIN_TIMING_SAMPLES = 8;
+// A jump this many ticks or more before contact is not aimed at that obstacle
+const MAX_LEAD_TICKS = 60;
+// Jumps this close to contact are frame-perfect; people do it occasionally, scripts always
+const FRAME_PERFECT_TICKS = 3;
+
+const PASS_SCORE = 0.7;
+const REDUCED_SCORE = 0.4;
+export const REDUCED_REWARD_FACTOR = 0.5;
+
+const mean = (values) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const stdDev = (values) => {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+/**
+ * Collects per-jump samples while a run is replayed
+ * Pass recorder.observe to replayRun, then hand recorder.samples to scoreBehavior
+ */
+export function createBehaviorRecorder() {
+    const samples = {
+        inputs: 0,
+        // Presses that could not do anything: mid-air or with nothing to jump over
+        strayInputs: 0,
+        // Ticks between the jump and reaching the obstacle it cleared
+        leads: [],
+        inputTicks: [],
+    };
+
+    const observe = (prev, next, jumped) => {
+        if (!jumped) return;
+        samples.inputs++;
+        samples.inputTicks.push(prev.tick);
+
+        const player = prev.player;
+        if (!player.grounded) {
+            samples.strayInputs++;
+            return;
+        }
+
+        const front = player.x + CHARACTER_SIZE;
+        // Overhead obstacles are run under, so only rocks are jumped at
+        const ahead = prev.entities
+            .filter(entity => entity.kind === 'rock' && entity.x + entity.width > player.x)
+            .sort((a, b) => a.x - b.x)[0];
+        const lead = ahead ? (ahead.x - front) / prev.speed : Infinity;
+        if (lead >= MAX_LEAD_TICKS) {
+            samples.strayInputs++;
+            return;
+        }
+        samples.leads.push(lead);
+    };
+
+    return { samples, observe };
+}
+
+/**
+ * Scores a run from its replay samples and the browser telemetry
+ * Returns { score, verdict, reasons }
+ */
+export function scoreBehavior(samples, telemetry) {
+    const reasons = [];
+    let score = 1;
+    const penalize = (amount, reason) => {
+        score -= amount;
+        reasons.push(reason);
+    };
+
+    const untrusted = telemetry && Number.isFinite(telemetry.untrustedInputs) ? telemetry.untrustedInputs : 0;
+
+    if (untrusted > 0) {
+        penalize(0.6, `${untrusted} synthetic input event(s)`);
+    }
+
+    if (samples.leads.length >= MIN_TIMING_SAMPLES) {
+        if (stdDev(samples.leads) < 1) {
+            penalize(0.4, 'Jump timing is too consistent');
+        }
+
+        const framePerfect = samples.leads.filter(lead => lead < FRAME_PERFECT_TICKS).length;
+        if (framePerfect / samples.leads.length > 0.5) {
+            penalize(0.3, 'Reactions are consistently frame-perfect');
+        }
+
+        const intervals = samples.inputTicks.slice(1).map((tick, i) => tick - samples.inputTicks[i]);
+        if (intervals.length >= MIN_TIMING_SAMPLES && stdDev(intervals) / mean(intervals) < 0.05) {
+            penalize(0.2, 'Inputs follow a fixed rhythm');
+        }
+
+        if (samples.inputs >= 30 && samples.strayInputs === 0) {
+            penalize(0.1, 'No stray inputs');
+        }
+    }
+
+    score = Math.max(0, Math.round(score * 100) / 100);
+    const verdict = score >= PASS_SCORE ? 'pass' : score >= REDUCED_SCORE ? 'reduced' : 'held';
+    return { score, verdict, reasons };
+}
@@ -0,0 +1,191 @@
+/**
+ * Text Captcha
+ * Server-rendered image captchas for the solve rewards.
+ *
+ * Characters are drawn as jittered stroke paths rather than SVG <text>, so the answer is
+ * not in the markup; it only lives in this module's memory until the captcha is solved,
+ * runs out of attempts or expires. Distortion scales with CaptchaDifficulty:
+ *   easy   -> 4 characters, light jitter
+ *   medium -> 6 characters, rotation, waves and noise
+ *   hard   -> 9 characters, heavy distortion and noise
+ */
+
+import crypto from 'crypto';
+
+const CAPTCHA_TTL_MS = 2 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+
+// No look-alikes (0/O, 1/I, 2/Z, 5/S, 6/G, 8/B)
+const CHARSET = 'ACDEFHJKLMNPRTUVWXY34679';
+
+// Stroke font on a 4 x 6 grid: each glyph is a list of polylines
+const GLYPHS = {
+    A: [[[0, 6], [2, 0], [4, 6]], [[1, 3.5], [3, 3.5]]],
+    C: [[[4, 1], [3, 0], [1, 0], [0, 1], [0, 5], [1, 6], [3, 6], [4, 5]]],
+    D: [[[0, 0], [0, 6], [3, 6], [4, 5], [4, 1], [3, 0], [0, 0]]],
+    E: [[[4, 0], [0, 0], [0, 6], [4, 6]], [[0, 3], [3, 3]]],
+    F: [[[4, 0], [0, 0], [0, 6]], [[0, 3], [3, 3]]],
+    H: [[[0, 0], [0, 6]], [[4, 0], [4, 6]], [[0, 3], [4, 3]]],
+    J: [[[4, 0], [4, 5], [3, 6], [1, 6], [0, 5]]],
+    K: [[[0, 0], [0, 6]], [[4, 0], [0, 3.5]], [[1.2, 2.8], [4, 6]]],
+    L: [[[0, 0], [0, 6], [4, 6]]],
+    M: [[[0, 6], [0, 0], [2, 3], [4, 0], [4, 6]]],
+    N: [[[0, 6], [0, 0], [4, 6], [4, 0]]],
+    P: [[[0, 6], [0, 0], [3, 0], [4, 1], [4, 2], [3, 3], [0, 3]]],
+    R: [[[0, 6], [0, 0], [3, 0], [4, 1], [4, 2], [3, 3], [0, 3]], [[2, 3], [4, 6]]],
+    T: [[[0, 0], [4, 0]], [[2, 0], [2, 6]]],
+    U: [[[0, 0], [0, 5], [1, 6], [3, 6], [4, 5], [4, 0]]],
+    V: [[[0, 0], [2, 6], [4, 0]]],
+    W: [[[0, 0], [1, 6], [2, 2], [3, 6], [4, 0]]],
+    X: [[[0, 0], [4, 6]], [[4, 0], [0, 6]]],
+    Y: [[[0, 0], [2, 3], [4, 0]], [[2, 3], [2, 6]]],
+    3: [[[0, 1], [1, 0], [3, 0], [4, 1], [4, 2], [3, 3], [1.5, 3]], [[3, 3], [4, 4], [4, 5], [3, 6], [1, 6], [0, 5]]],
+    4: [[[3, 6], [3, 0], [0, 4], [4, 4]]],
+    6: [[[4, 1], [3, 0], [1, 0], [0, 1], [0, 5], [1, 6], [3, 6], [4, 5], [4, 4], [3, 3], [0, 3]]],
+    7: [[[0, 0], [4, 0], [1.5, 6]]],
+    9: [[[4, 3], [1, 3], [0, 2], [0, 1], [1, 0], [3, 0], [4, 1], [4, 5], [3, 6], [1, 6], [0, 5]]],
+};
+
+const DIFFICULTY_SETTINGS = {
+    easy: { length: 4, jitter: 0.15, rotation: 10, wave: 0, noiseLines: 3, noiseDots: 20, spacing: 38 },
+    medium: { length: 6, jitter: 0.3, rotation: 20, wave: 3, noiseLines: 6, noiseDots: 40, spacing: 34 },
+    hard: { length: 9, jitter: 0.45, rotation: 30, wave: 6, noiseLines: 10, noiseDots: 80, spacing: 30 },
+};
+
+const GLYPH_SCALE = 7; // pixels per grid unit
+const HEIGHT = 80;
+const COLORS = ['#e4e4e7', '#a5b4fc', '#86efac', '#fca5a5', '#fde68a', '#f9a8d4'];
+
+// Outstanding captchas by id
+const captchas = new Map();
+
+export class CaptchaError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CaptchaError';
+        this.status = status;
+    }
+}
+
+const rand = (min, max) => min + Math.random() * (max - min);
+const pick = (items) => items[Math.floor(Math.random() * items.length)];
+const fmt = (n) => n.toFixed(1);
+
+const renderGlyph = (char, originX, settings) => {
+    const angle = rand(-settings.rotation, settings.rotation) * Math.PI / 180;
+    const scale = GLYPH_SCALE * rand(0.9, 1.15);
+    const cx = originX + 2 * GLYPH_SCALE;
+    const cy = HEIGHT / 2 + rand(-6, 6);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return GLYPHS[char].map(stroke => {
+        const points = stroke.map(([gx, gy]) => {
+            // Jitter in glyph space, then rotate and scale around the glyph's center
+            const x = (gx - 2 + rand(-settings.jitter, settings.jitter)) * scale;
+            const y = (gy - 3 + rand(-settings.jitter, settings.jitter)) * scale;
+            const px = cx + x * cos - y * sin;
+            const py = cy + x * sin + y * cos + Math.sin(px / 12) * settings.wave;
+            return `${fmt(px)} ${fmt(py)}`;
+        });
+        return `M${points.join(' L')}`;
+    });
+};
+
+const renderSvg = (answer, settings) => {
+    const width = answer.length * settings.spacing + 40;
+    const paths = [];
+
+    [...answer].forEach((char, i) => {
+        const color = pick(COLORS);
+        const strokeWidth = rand(2.2, 3.2);
+        renderGlyph(char, 20 + i * settings.spacing, settings).forEach(d => {
+            paths.push(`<path d="${d}" stroke="${color}" stroke-width="${fmt(strokeWidth)}"/>`);
+        });
+    });
+
+    // Noise curves drawn with the same stroke style as the characters
+    for (let i = 0; i < settings.noiseLines; i++) {
+        const d = `M${fmt(rand(0, width / 3))} ${fmt(rand(0, HEIGHT))} Q${fmt(rand(0, width))} ${fmt(rand(0, HEIGHT))} ${fmt(rand(width * 2 / 3, width))} ${fmt(rand(0, HEIGHT))}`;
+        paths.push(`<path d="${d}" stroke="${pick(COLORS)}" stroke-width="${fmt(rand(1, 2.5))}"/>`);
+    }
+
+    // Shuffle so document order does not give away which paths are characters
+    for (let i = paths.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [paths[i], paths[j]] = [paths[j], paths[i]];
+    }
+
+    const dots = [];
+    for (let i = 0; i < settings.noiseDots; i++) {
+        dots.push(`<circle cx="${fmt(rand(0, width))}" cy="${fmt(rand(0, HEIGHT))}" r="${fmt(rand(0.5, 2))}" fill="${pick(COLORS)}"/>`);
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${HEIGHT}" viewBox="0 0 ${width} ${HEIGHT}">`
+        + `<rect width="100%" height="100%" fill="#18181b"/>`
+        + `<g fill="none" stroke-linecap="round" stroke-linejoin="round">${paths.join('')}</g>`
+        + dots.join('')
+        + `</svg>`;
+};
+
+/**
+ * Issues a captcha for an address; the answer stays on the server
+ */
+export function createCaptcha(address, difficulty) {
+    const settings = DIFFICULTY_SETTINGS[difficulty];
+    if (!settings) throw new CaptchaError('Invalid difficulty');
+
+    let answer = '';
+    for (let i = 0; i < settings.length; i++) {
+        answer += CHARSET[crypto.randomInt(CHARSET.length)];
+    }
+
+    const captcha = {
+        id: crypto.randomBytes(12).toString('hex'),
+        address,
+        difficulty,
+        answer,
+        attemptsLeft: MAX_ATTEMPTS,
+        expiresAt: Date.now() + CAPTCHA_TTL_MS,
+    };
+    captchas.set(captcha.id, captcha);
+
+    return { captchaId: captcha.id, difficulty, svg: renderSvg(answer, settings), expiresAt: captcha.expiresAt };
+}
+
+/**
+ * Checks an answer; returns the solved captcha's difficulty or throws CaptchaError.
+ * A captcha is consumed when solved, after MAX_ATTEMPTS wrong answers or once expired.
+ */
+export function solveCaptcha(address, captchaId, solution) {
+    const captcha = captchas.get(captchaId);
+    if (!captcha || captcha.address !== address) {
+        throw new CaptchaError('Unknown captcha, please load a new one', 404);
+    }
+    if (captcha.expiresAt < Date.now()) {
+        captchas.delete(captchaId);
+        throw new CaptchaError('Captcha expired, please load a new one', 410);
+    }
+
+    const normalized = typeof solution === 'string' ? solution.trim().toUpperCase() : '';
+    const expected = Buffer.from(captcha.answer);
+    const given = Buffer.from(normalized);
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        captcha.attemptsLeft -= 1;
+        if (captcha.attemptsLeft <= 0) {
+            captchas.delete(captchaId);
+            throw new CaptchaError('Incorrect answer, please load a new captcha', 410);
+        }
+        throw new CaptchaError(`Incorrect answer (${captcha.attemptsLeft} attempt(s) left)`);
+    }
+
+    captchas.delete(captchaId);
+    return captcha.difficulty;
+}
+
+setInterval(() => {
+    const now = Date.now();
+    for (const [id, captcha] of captchas) {
+        if (captcha.expiresAt < now) captchas.delete(id);
+    }
+}, 60 * 1000).unref();
@@ -0,0 +1,258 @@
+/**
+ * Live Chat
+ * Messages are posted under the wallet behind the sender's session, never a name the client
+ * supplies, into one of the public rooms or a direct message room between two wallets
+ * (room names in shared/chat.ts). Every message goes through the same steps before it is
+ * stored:
+ *
+ *   sanction  -> banned or currently muted addresses cannot post
+ *   rate      -> a minimum gap and a burst cap per address, kept across reconnects
+ *   filters   -> clean up whitespace, check the length, refuse links, mask blocked words
+ *
+ * Word list, link allow-list and rate limits live in chat-filter.json and are re-read
+ * whenever the file changes. Mutes and bans are kept in storage so they outlast a restart.
+ */
+
+import fs from 'fs';
+import { dataPath, loadJson } from './store.js';
+import { getRepository } from './storage/index.ts';
+import { CHAT_ROOMS, isPublicRoom, directRoomMembers } from '../shared/chat.ts';
+
+const filterPath = dataPath('chat-filter.json');
+
+export const MAX_HISTORY = 100;
+export const MESSAGE_LENGTH_LIMIT = 280;
+
+const DEFAULT_RULES = {
+    blockedWords: [],
+    allowedLinkHosts: [],
+    burstMessages: 5,
+    burstWindowSeconds: 30,
+    minIntervalSeconds: 2,
+};
+
+// Longest mute an admin can hand out; anything longer should be a ban
+const MAX_MUTE_MINUTES = 7 * 24 * 60;
+const MAX_REASON_LENGTH = 200;
+
+let rules = DEFAULT_RULES;
+let rulesMtime = 0;
+let blockedWords = new Set();
+
+const getRules = () => {
+    try {
+        const { mtimeMs } = fs.statSync(filterPath);
+        if (mtimeMs !== rulesMtime) {
+            rules = { ...DEFAULT_RULES, ...loadJson(filterPath, {}) };
+            blockedWords = new Set(rules.blockedWords.map(toComparable));
+            rulesMtime = mtimeMs;
+            console.log('📜 Chat filter loaded');
+        }
+    } catch {
+        // No filter file: keep the defaults
+    }
+    return rules;
+};
+
+export class ChatError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'ChatError';
+    }
+}
+
+export const shortenAddress = (address) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+// Send times per address within the current burst window
+const recentSends = new Map();
+
+const checkRate = (address, now) => {
+    const { burstMessages, burstWindowSeconds, minIntervalSeconds } = getRules();
+    const sends = (recentSends.get(address) || []).filter(time => now - time < burstWindowSeconds * 1000);
+    recentSends.set(address, sends);
+
+    const last = sends[sends.length - 1];
+    if (last !== undefined && now - last < minIntervalSeconds * 1000) {
+        throw new ChatError('Please wait a moment before sending another message.');
+    }
+    if (sends.length >= burstMessages) {
+        throw new ChatError('You are sending messages too quickly. Please slow down.');
+    }
+};
+
+// Drop addresses that have not posted for a whole window so the map does not grow forever
+setInterval(() => {
+    const windowMs = getRules().burstWindowSeconds * 1000;
+    const now = Date.now();
+    for (const [address, sends] of recentSends) {
+        if (!sends.length || now - sends[sends.length - 1] >= windowMs) recentSends.delete(address);
+    }
+}, 60 * 1000).unref();
+
+/**
+ * The address's live sanction, if any; a mute that has run out is cleared on the way
+ */
+export function getActiveSanction(address) {
+    const { chat } = getRepository();
+    const sanction = chat.getSanction(address);
+    if (sanction && sanction.until && Date.parse(sanction.until) <= Date.now()) {
+        chat.clearSanction(address);
+        return null;
+    }
+    return sanction;
+}
+
+/**
+ * What a sanctioned wallet is told when it tries to post
+ */
+export const describeSanction = (sanction) => sanction.kind === 'ban'
+    ? 'You are banned from chat.'
+    : `You are muted until ${new Date(sanction.until).toUTCString()}.`;
+
+// Bare domains on common TLDs (example.com/path) count as links too, not only http(s):// and www.
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|io|xyz|gg|me|app|link|ru|co|ly|to|sh|fun|site|online|info|biz|club|top|live|pro|dev)\b(?:\/[^\s]*)?/gi;
+// Characters swapped in to slip a word past the list
+const LOOKALIKES = { 0: 'o', 1: 'i', 3: 'e', 4: 'a', 5: 's', 7: 't', '@': 'a', $: 's' };
+
+const linkHost = (link) => link.replace(/^https?:\/\//i, '').split(/[/?#:]/)[0].replace(/^www\./i, '').toLowerCase();
+
+const toComparable = (word) => word
+    .toLowerCase()
+    .replace(/[013457@$]/g, c => LOOKALIKES[c])
+    .replace(/(.)\1+/g, '$1');
+
+/**
+ * Each filter gets the text so far and returns the text to pass on, or throws ChatError
+ */
+const FILTERS = [
+    // Control and zero-width characters out, runs of whitespace down to one space
+    (text) => text.replace(/[\u0000-\u001f\u007f\u200b-\u200f\u2060\ufeff]/g, '').replace(/\s+/g, ' ').trim(),
+
+    (text) => {
+        if (!text || text.length > MESSAGE_LENGTH_LIMIT) throw new ChatError('Invalid message length.');
+        return text;
+    },
+
+    (text, { allowedLinkHosts }) => {
+        const links = text.match(LINK_PATTERN) || [];
+        const allowed = (link) => {
+            const host = linkHost(link);
+            return allowedLinkHosts.some(allowedHost => host === allowedHost || host.endsWith(`.${allowedHost}`));
+        };
+        if (links.some(link => !allowed(link))) throw new ChatError('Links are not allowed in chat.');
+        return text;
+    },
+
+    (text) => text.replace(/[\p{L}\p{N}@$]+/gu, (word) =>
+        blockedWords.has(toComparable(word)) ? word[0] + '*'.repeat(word.length - 1) : word),
+];
+
+/**
+ * Runs text through the filters without posting it
+ */
+export function filterMessage(text) {
+    const current = getRules();
+    return FILTERS.reduce((result, filter) => filter(result, current), typeof text === 'string' ? text : '');
+}
+
+/**
+ * Whether an address (null when signed out) may read a room: public rooms are open to
+ * everyone, a direct message room only to its two wallets
+ */
+export function canReadRoom(address, room) {
+    if (isPublicRoom(room)) return true;
+    const members = typeof room === 'string' ? directRoomMembers(room) : null;
+    return Boolean(address && members && members.includes(address));
+}
+
+/**
+ * Posts a message as an address and returns it; throws ChatError when it is refused
+ */
+export function postMessage(address, text, room) {
+    const members = typeof room === 'string' ? directRoomMembers(room) : null;
+    if (!isPublicRoom(room) && !(members && members.includes(address))) throw new ChatError('Unknown chat room.');
+    if (members && members[0] === members[1]) throw new ChatError('You cannot message yourself.');
+
+    const sanction = getActiveSanction(address);
+    if (sanction) throw new ChatError(describeSanction(sanction));
+
+    const now = Date.now();
+    checkRate(address, now);
+    const filtered = filterMessage(text);
+
+    const message = {
+        id: now + Math.random().toString(36).substr(2, 9),
+        user: shortenAddress(address),
+        address,
+        room,
+        text: filtered,
+        timestamp: new Date(now).toISOString(),
+    };
+    getRepository().chat.append(message);
+    recentSends.get(address).push(now);
+    return message;
+}
+
+export function getChatHistory(room) {
+    return getRepository().chat.recent(room, MAX_HISTORY);
+}
+
+export function markRoomRead(address, room) {
+    getRepository().chat.markRead(address, room, new Date().toISOString());
+}
+
+/**
+ * Unread messages per room for an address: every public room and each direct message room
+ * it has a conversation in. Counts stop at MAX_HISTORY, as older messages are not shown anyway
+ */
+export function getUnreadCounts(address) {
+    const { chat } = getRepository();
+    const unread = {};
+    for (const room of [...CHAT_ROOMS, ...chat.directRooms(address)]) {
+        unread[room] = chat.unreadCount(address, room, MAX_HISTORY);
+    }
+    return unread;
+}
+
+/**
+ * Admin: removes a message from the history; returns the message, or null if it does not exist
+ */
+export function deleteMessage(id) {
+    return typeof id === 'string' ? getRepository().chat.remove(id) : null;
+}
+
+const toReason = (reason) => (typeof reason === 'string' && reason.trim() ? reason.trim().slice(0, MAX_REASON_LENGTH) : null);
+
+/**
+ * Admin: stops an address posting for a number of minutes
+ */
+export function muteAddress(address, minutes, reason = null) {
+    if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_MUTE_MINUTES) {
+        throw new ChatError(`Mute length must be between 1 and ${MAX_MUTE_MINUTES} minutes.`);
+    }
+    const sanction = {
+        address,
+        kind: 'mute',
+        until: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+        reason: toReason(reason),
+        createdAt: new Date().toISOString(),
+    };
+    getRepository().chat.putSanction(sanction);
+    return sanction;
+}
+
+/**
+ * Admin: stops an address posting until the ban is lifted
+ */
+export function banAddress(address, reason = null) {
+    const sanction = { address, kind: 'ban', until: null, reason: toReason(reason), createdAt: new Date().toISOString() };
+    getRepository().chat.putSanction(sanction);
+    return sanction;
+}
+
+/**
+ * Admin: lifts a mute or ban; returns false if the address had neither
+ */
+export function liftSanction(address) {
+    return getRepository().chat.clearSanction(address);
+}
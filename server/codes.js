@@ -0,0 +1,137 @@
+/**
+ * Redemption Codes
+ * Admin-generated PENGU-2026-XXXX-XXXX codes (format and check character in shared/codes.ts).
+ * Each code carries its own amount, an optional expiry and a number of uses; an address can
+ * redeem a given code once.
+ *
+ * Using up the code and crediting the ledger happen in one storage transaction, so of two
+ * simultaneous redemptions of a last use only one is paid, and a failed credit leaves the
+ * use unspent.
+ */
+
+import crypto from 'crypto';
+import { credit, solToLamports, lamportsToSol } from './ledger.js';
+import { getRewardSchedule } from './rewards.js';
+import { getRepository } from './storage/index.ts';
+import { CODE_ALPHABET, CODE_BODY_LENGTH, buildCode, normalizeCode, isWellFormedCode, hasValidChecksum } from '../shared/codes.ts';
+
+const MAX_BATCH_SIZE = 500;
+const MAX_USES = 10000;
+const MAX_AMOUNT_SOL = 10;
+
+const OUTCOME_ERRORS = {
+    expired: 'This code has expired',
+    used_up: 'This code has already been fully redeemed',
+    already_redeemed: 'You have already redeemed this code',
+};
+
+export class CodeError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CodeError';
+        this.status = status;
+    }
+}
+
+/**
+ * Admin-facing view of a code
+ */
+export const toCodeRecord = (code) => ({
+    code: code.code,
+    amountSOL: lamportsToSol(code.amountLamports),
+    maxUses: code.maxUses,
+    uses: code.uses,
+    expiresAt: code.expiresAt,
+    batchId: code.batchId,
+    createdAt: code.createdAt,
+});
+
+const randomBody = () => {
+    let body = '';
+    for (let i = 0; i < CODE_BODY_LENGTH; i++) {
+        body += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    return body;
+};
+
+/**
+ * Generates a batch of codes that share an amount, expiry and use limit
+ * amountSOL defaults to the reward schedule's redeemSOL; expiresAt is an ISO date or null
+ */
+export function generateCodes({ count, amountSOL, expiresAt = null, maxUses = 1 } = {}) {
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_SIZE) {
+        throw new CodeError(`count must be between 1 and ${MAX_BATCH_SIZE}`);
+    }
+    const amount = amountSOL === undefined ? getRewardSchedule().redeemSOL : amountSOL;
+    if (typeof amount !== 'number' || !(amount > 0) || amount > MAX_AMOUNT_SOL) {
+        throw new CodeError(`amountSOL must be above 0 and at most ${MAX_AMOUNT_SOL}`);
+    }
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_USES) {
+        throw new CodeError(`maxUses must be between 1 and ${MAX_USES}`);
+    }
+    let expiry = null;
+    if (expiresAt !== null) {
+        const time = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+        if (Number.isNaN(time)) throw new CodeError('expiresAt must be an ISO date');
+        if (time <= Date.now()) throw new CodeError('expiresAt must be in the future');
+        expiry = new Date(time).toISOString();
+    }
+
+    const { codes } = getRepository();
+    const batchId = crypto.randomBytes(6).toString('hex');
+    const createdAt = new Date().toISOString();
+    const batch = new Map();
+    // 32^7 bodies; a clash with an existing code is rare but would silently drop the new one
+    while (batch.size < count) {
+        const code = buildCode(randomBody());
+        if (batch.has(code) || codes.get(code)) continue;
+        batch.set(code, {
+            code,
+            amountLamports: solToLamports(amount),
+            maxUses,
+            uses: 0,
+            expiresAt: expiry,
+            batchId,
+            createdAt,
+        });
+    }
+    codes.insert([...batch.values()]);
+
+    console.log(`🎟️  Generated ${count} code(s) worth ${amount} SOL (batch ${batchId})`);
+    return { batchId, codes: [...batch.values()].map(toCodeRecord) };
+}
+
+/**
+ * Every code, or one batch, oldest first
+ */
+export function listCodes(batchId) {
+    return getRepository().codes.list(batchId ? { batchId } : {}).map(toCodeRecord);
+}
+
+/**
+ * Redeems a code for an address and credits its amount
+ * Returns the amount in SOL; throws CodeError when the code cannot be used
+ */
+export function redeemCode(address, input) {
+    if (typeof input !== 'string' || !input.trim()) throw new CodeError('Missing code');
+    const code = normalizeCode(input);
+
+    const repository = getRepository();
+    const { outcome, amountLamports } = repository.transaction(() => {
+        const entry = repository.codes.get(code);
+        const outcome = repository.codes.redeem(code, address, new Date().toISOString());
+        if (outcome === 'redeemed') {
+            credit(address, 'redeem', entry.amountLamports, { code, batchId: entry.batchId });
+        }
+        return { outcome, amountLamports: entry ? entry.amountLamports : 0 };
+    });
+
+    if (outcome === 'not_found') {
+        // A failed check character means a typo rather than a made-up code
+        throw new CodeError(isWellFormedCode(code) && !hasValidChecksum(code)
+            ? 'Invalid code; check it for typos'
+            : 'Invalid code');
+    }
+    if (outcome !== 'redeemed') throw new CodeError(OUTCOME_ERRORS[outcome], 409);
+    return lamportsToSol(amountLamports);
+}
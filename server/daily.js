@@ -0,0 +1,149 @@
+/**
+ * Daily Run
+ * One course per UTC day: every daily run started that day gets the same seed and
+ * difficulty, so the day's distances are directly comparable.
+ *
+ * The seed is an HMAC of the date under a server secret (DAILY_SEED_SECRET, or a random one
+ * kept in storage), so a course cannot be worked out and practised before its day starts.
+ * Each day keeps its own board with every address's best verified distance, stored as the
+ * 'dailyrun' leaderboard with the date as its period.
+ *
+ * After the day ends it is settled once: the reward schedule's dailyPool is split among the
+ * top finishers and credited to the ledger. Runs still being played at rollover, or held for
+ * review past it, only count toward the all-time board.
+ */
+
+import crypto from 'crypto';
+import { credit, hasEntry, solToLamports } from './ledger.js';
+import { getRewardSchedule } from './rewards.js';
+import { getRepository } from './storage/index.ts';
+import { splitDailyPool } from '../shared/rewards.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAILY_DIFFICULTY = 'medium';
+const BOARD_SIZE = 50;
+// Leaderboard the day's scores are stored on, one period per date
+const BOARD = 'dailyrun';
+
+/**
+ * UTC date (YYYY-MM-DD) of a timestamp
+ */
+export const utcDay = (time = Date.now()) => new Date(time).toISOString().slice(0, 10);
+
+const dayEnd = (day) => new Date(Date.parse(day) + DAY_MS).toISOString();
+
+const seedSecret = () => {
+    if (process.env.DAILY_SEED_SECRET) return process.env.DAILY_SEED_SECRET;
+    const { daily } = getRepository();
+    let secret = daily.getSecret();
+    if (!secret) {
+        secret = crypto.randomBytes(32).toString('hex');
+        daily.setSecret(secret);
+    }
+    return secret;
+};
+
+// The seed is stored with the day, so changing the secret never changes a course mid-day
+const getDay = (day) => {
+    const { daily } = getRepository();
+    let record = daily.getDay(day);
+    if (!record) {
+        record = {
+            day,
+            seed: crypto.createHmac('sha256', seedSecret()).update(day).digest().readUInt32BE(0),
+            difficulty: DAILY_DIFFICULTY,
+            settledAt: null,
+            payouts: [],
+        };
+        daily.putDay(record);
+    }
+    return record;
+};
+
+/**
+ * Today's course: the seed and difficulty every daily run is played with
+ */
+export function getDailyChallenge() {
+    const day = utcDay();
+    const record = getDay(day);
+    return { day, seed: record.seed, difficulty: record.difficulty, endsAt: dayEnd(day) };
+}
+
+/**
+ * Client-facing board for a day (today by default)
+ */
+export function getDailyBoard(day = utcDay()) {
+    const record = getRepository().daily.getDay(day);
+    return {
+        day,
+        endsAt: dayEnd(day),
+        poolSOL: getRewardSchedule().dailyPool.totalSOL,
+        settled: Boolean(record && record.settledAt),
+        // Stored entries also name the run that set them, which stays on the server
+        entries: getRepository().leaderboard.page(BOARD, day, 0, BOARD_SIZE).map(e => ({
+            user: e.user,
+            score: e.score,
+            timestamp: e.timestamp,
+        })),
+    };
+}
+
+/**
+ * Whether a day's board is final; its runs' inputs can then be shared without giving
+ * anyone a head start
+ */
+export function isDaySettled(day) {
+    const record = getRepository().daily.getDay(day);
+    return Boolean(record && record.settledAt);
+}
+
+/**
+ * Records a verified daily run distance, keeping each address's best
+ * Returns false if the day has ended (settled or not) or the score is not a new best
+ */
+export function recordDailyScore(address, score, runId, day) {
+    const record = getRepository().daily.getDay(day);
+    // A run finished after midnight would otherwise land on a board that is about to settle
+    if (!record || record.settledAt || Date.now() >= Date.parse(dayEnd(day))) return false;
+
+    const { leaderboard } = getRepository();
+    const existing = leaderboard.get(BOARD, day, address);
+    if (existing && existing.score >= score) return false;
+
+    leaderboard.put(BOARD, day, { user: address, score, runId, timestamp: new Date().toISOString() });
+    return true;
+}
+
+/**
+ * Settles every finished day that has not been settled yet, crediting each day's pool to
+ * its top finishers. A credit already in the ledger for the same day is not paid again, so
+ * a crash part-way through can safely settle the day a second time.
+ * Returns the days that were settled
+ */
+export function settleFinishedDays() {
+    const today = utcDay();
+    const settled = [];
+
+    for (const record of getRepository().daily.unsettledBefore(today)) {
+        const { day } = record;
+
+        const schedule = getRewardSchedule();
+        const finishers = getRepository().leaderboard.page(BOARD, day, 0, schedule.dailyPool.shares.length);
+        const cuts = splitDailyPool(schedule, finishers.length);
+        record.payouts = cuts.map((sol, index) => {
+            const { user: address, score } = finishers[index];
+            const rank = index + 1;
+            const lamports = solToLamports(sol);
+            if (lamports > 0 && !hasEntry(address, 'daily_pool', meta => meta.day === day)) {
+                credit(address, 'daily_pool', lamports, { day, rank, distance: score, scheduleVersion: schedule.version });
+            }
+            return { address, rank, distance: score, rewardSOL: sol };
+        });
+        record.settledAt = new Date().toISOString();
+        getRepository().daily.putDay(record);
+
+        console.log(`🏁 Daily run ${day} settled: ${record.payouts.length} finisher(s) shared ${schedule.dailyPool.totalSOL} SOL`);
+        settled.push(day);
+    }
+    return settled;
+}
@@ -12,19 +12,57 @@ import {
     Connection,
     Keypair,
     PublicKey,
-    Transaction,
-    SystemProgram,
-    sendAndConfirmTransaction,
     LAMPORTS_PER_SOL,
 } from '@solana/web3.js';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import {
+    getBalanceLamports,
+    getSummary,
+    findLastEntry,
+    credit,
+    solToLamports,
+    lamportsToSol,
+    InsufficientBalanceError,
+} from './ledger.js';
+import { decodeBase58 } from './base58.js';
+import { issueChallenge, verifyChallenge, revokeSession, getSessionAddress, requireAuth, requireAdmin, isAdminKey } from './auth.js';
+import {
+    initPayouts,
+    requestPayout,
+    getPayoutsFor,
+    getAllPayouts,
+    getPayoutVolume,
+    approvePayout,
+    rejectPayout,
+    toPayoutRecord,
+    recoverPayouts,
+    PayoutActionError,
+} from './payouts.js';
+import { evaluateWithdrawal } from './policy.js';
+import { startRun, finishRun, releaseRun, getFlaggedRuns, getGhost, getPersonalBestGhost, toRunSummary, RunError } from './runs.js';
+import { createCaptcha, solveCaptcha, CaptchaError } from './captcha.js';
+import { getRewardSchedule, getRewardScheduleHistory } from './rewards.js';
+import { getMiningChallenge, isMiningShare } from './mining.js';
+import { getDailyChallenge, getDailyBoard, settleFinishedDays, utcDay } from './daily.js';
+import { isLeaderboardWindow, getLeaderboardPage, getAllTimeLeader } from './leaderboard.js';
+import { generateCodes, listCodes, redeemCode, CodeError } from './codes.js';
+import {
+    postMessage,
+    getChatHistory,
+    getUnreadCounts,
+    canReadRoom,
+    markRoomRead,
+    deleteMessage,
+    muteAddress,
+    banAddress,
+    liftSanction,
+    describeSanction,
+    ChatError,
+} from './chat.js';
+import { DEFAULT_CHAT_ROOM, directRoom, directRoomMembers } from '../shared/chat.ts';
+import { getSolveReward } from '../shared/rewards.ts';
+import { isClientEvent, validateClientEvent } from '../shared/protocol.ts';
 
 // Load environment variables
 dotenv.config();
@@ -35,6 +73,8 @@ const httpServer = createServer(app);
 // Production-ready CORS
 const allowedOrigins = "*";
 
+// Events and payloads are listed in shared/protocol.ts
+/** @type {import('socket.io').Server<import('../shared/protocol.ts').ClientToServerEvents, import('../shared/protocol.ts').ServerToClientEvents>} */
 const io = new Server(httpServer, {
     cors: {
         origin: "*", // Allow all for production debugging
@@ -44,32 +84,6 @@ const io = new Server(httpServer, {
 
 const PORT = process.env.PORT || 3001;
 
-// Base58 decoder for private key
-function decodeBase58(str) {
-    const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-    const BASE = BigInt(58);
-    if (!str || str.length === 0) return new Uint8Array();
-    let leadingZeros = 0;
-    for (const char of str) {
-        if (char === '1') leadingZeros++;
-        else break;
-    }
-    let num = BigInt(0);
-    for (const char of str) {
-        const index = ALPHABET.indexOf(char);
-        if (index === -1) throw new Error(`Invalid Base58 character: ${char}`);
-        num = num * BASE + BigInt(index);
-    }
-    const bytes = [];
-    while (num > 0) {
-        bytes.unshift(Number(num % BigInt(256)));
-        num = num / BigInt(256);
-    }
-    const result = new Uint8Array(leadingZeros + bytes.length);
-    result.set(bytes, leadingZeros);
-    return result;
-}
-
 // Initialize Solana connection
 let connection;
 if (process.env.HELIUS_RPC_URL) {
@@ -93,7 +107,7 @@ if (process.env.TREASURY_PRIVATE_KEY) {
 }
 
 // Middleware
-app.use(cors({ origin: allowedOrigins }));
+app.use(cors({ origin: allowedOrigins, allowedHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key'] }));
 app.use(express.json());
 
 // Rate limiting
@@ -105,6 +119,50 @@ const withdrawLimiter = rateLimit({
     legacyHeaders: false,
 });
 
+const authLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 20,
+    message: { success: false, error: 'Too many sign-in attempts. Please try again later.' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Guessing codes should be slow even though the check character rules out most guesses
+const redeemLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 10,
+    message: { success: false, error: 'Too many redemption attempts. Please try again later.' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+const creditLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 240,
+    message: { success: false, error: 'Too many reward claims. Please slow down.' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+// Reward amounts come from the versioned schedule in reward-schedule.json (see rewards.js).
+// The server decides what each action is worth, the client only reports the action.
+const SOLVE_COOLDOWN_MS = 3000;
+
+const isValidAddress = (address) => {
+    if (!address || typeof address !== 'string') return false;
+    try {
+        new PublicKey(address);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const msSinceLast = (address, source) => {
+    const last = findLastEntry(address, source);
+    return last ? Date.now() - new Date(last.timestamp).getTime() : Infinity;
+};
+
 /**
  * Health check endpoint
  */
@@ -129,10 +187,256 @@ app.get('/api/health', async (req, res) => {
     }
 });
 
+/**
+ * Sign-in challenge endpoint
+ * Issues a nonce message for the wallet to sign
+ */
+app.post('/api/auth/challenge', authLimiter, (req, res) => {
+    const { address } = req.body;
+    if (!isValidAddress(address)) {
+        return res.status(400).json({ success: false, error: 'Invalid address' });
+    }
+    res.json({ success: true, ...issueChallenge(address) });
+});
+
+/**
+ * Sign-in verification endpoint
+ * Exchanges a signed challenge for a session token
+ */
+app.post('/api/auth/verify', authLimiter, (req, res) => {
+    const { address, nonce, signature } = req.body;
+    if (!isValidAddress(address) || typeof nonce !== 'string' || typeof signature !== 'string') {
+        return res.status(400).json({ success: false, error: 'Invalid sign-in request' });
+    }
+
+    const session = verifyChallenge(address, nonce, signature);
+    if (!session) {
+        return res.status(401).json({ success: false, error: 'Signature verification failed' });
+    }
+    res.json({ success: true, ...session });
+});
+
+/**
+ * Sign-out endpoint
+ */
+app.post('/api/auth/logout', requireAuth, (req, res) => {
+    revokeSession(req.sessionToken);
+    res.json({ success: true });
+});
+
+/**
+ * Reward schedule endpoint
+ * The amounts currently paid for each action, for the client to display
+ */
+app.get('/api/rewards', (req, res) => {
+    res.json({ success: true, schedule: getRewardSchedule() });
+});
+
+/**
+ * Ledger balance endpoint
+ */
+app.get('/api/ledger', requireAuth, (req, res) => {
+    res.json({ success: true, ...getSummary(req.address) });
+});
+
+/**
+ * Tab mining challenge endpoint
+ * The challenge the next tab mining claim must carry a share for (see mining.js)
+ */
+app.get('/api/mining/challenge', requireAuth, (req, res) => {
+    res.json({ success: true, challenge: getMiningChallenge(req.address) });
+});
+
+/**
+ * Reward credit endpoint
+ * Records one rewarded action; the amount comes from the server's reward table
+ */
+app.post('/api/ledger/credit', creditLimiter, requireAuth, (req, res) => {
+    const { source } = req.body;
+    const address = req.address;
+
+    const schedule = getRewardSchedule();
+    let reward = 0;
+    const meta = { scheduleVersion: schedule.version };
+
+    switch (source) {
+        case 'tab_mining':
+            // Allow a little jitter on the client interval, but no faster ticking
+            if (msSinceLast(address, 'tab_mining') < schedule.tabMining.intervalMs - 250) {
+                return res.status(429).json({ success: false, error: 'Tab mining tick too early' });
+            }
+            if (!isMiningShare(address, req.body.nonce)) {
+                return res.status(400).json({ success: false, error: 'Invalid proof of work' });
+            }
+            reward = schedule.tabMining.rewardSOL;
+            meta.nonce = req.body.nonce;
+            break;
+        default:
+            return res.status(400).json({ success: false, error: 'Invalid reward source' });
+    }
+
+    // A schedule can set an action to pay nothing
+    if (solToLamports(reward) > 0) credit(address, source, solToLamports(reward), meta);
+    // The credit moved the address on to a new challenge for its next claim
+    return res.json({ success: true, rewardSOL: reward, challenge: getMiningChallenge(address), ...getSummary(address) });
+});
+
+/**
+ * Captcha endpoint
+ * Issues a server-rendered captcha image; the answer never leaves the server
+ */
+app.post('/api/captcha', creditLimiter, requireAuth, (req, res) => {
+    try {
+        res.json({ success: true, ...createCaptcha(req.address, req.body.difficulty) });
+    } catch (error) {
+        if (error instanceof CaptchaError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
+        throw error;
+    }
+});
+
+/**
+ * Captcha solve endpoint
+ * Credits the solve reward for the captcha's difficulty when the answer is right
+ */
+app.post('/api/captcha/:id/solve', creditLimiter, requireAuth, (req, res) => {
+    const address = req.address;
+    if (msSinceLast(address, 'solve') < SOLVE_COOLDOWN_MS) {
+        return res.status(429).json({ success: false, error: 'Rate limit exceeded (3s)' });
+    }
+
+    let difficulty;
+    try {
+        difficulty = solveCaptcha(address, req.params.id, req.body.solution);
+    } catch (error) {
+        if (error instanceof CaptchaError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
+        throw error;
+    }
+
+    const schedule = getRewardSchedule();
+    const reward = getSolveReward(schedule, difficulty);
+    if (solToLamports(reward) > 0) {
+        credit(address, 'solve', solToLamports(reward), { difficulty, captchaId: req.params.id, scheduleVersion: schedule.version });
+    }
+    res.json({ success: true, difficulty, rewardSOL: reward, ...getSummary(address) });
+});
+
+/**
+ * Run start endpoint
+ * Issues the seed a runner run must be played with
+ */
+app.post('/api/runs', creditLimiter, requireAuth, (req, res) => {
+    try {
+        const run = startRun(req.address, req.body.difficulty);
+        res.json({ success: true, runId: run.id, seed: run.seed, difficulty: run.difficulty });
+    } catch (error) {
+        if (error instanceof RunError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
+        throw error;
+    }
+});
+
+/**
+ * Daily run endpoint
+ * Today's board, prize pool and when the day ends; the seed is only handed out with a run
+ */
+app.get('/api/daily', (req, res) => {
+    const { day, difficulty, endsAt } = getDailyChallenge();
+    res.json({ success: true, day, difficulty, endsAt, board: getDailyBoard(day) });
+});
+
+/**
+ * Daily run start endpoint
+ * Issues a run on today's shared seed; it is finished like any other run
+ */
+app.post('/api/daily/runs', creditLimiter, requireAuth, (req, res) => {
+    try {
+        const challenge = getDailyChallenge();
+        const run = startRun(req.address, challenge.difficulty, challenge);
+        res.json({ success: true, runId: run.id, seed: run.seed, difficulty: run.difficulty, day: run.day });
+    } catch (error) {
+        if (error instanceof RunError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
+        throw error;
+    }
+});
+
+/**
+ * Run finish endpoint
+ * Replays the run's inputs; milestone and token rewards and the leaderboard score
+ * only count if the replay reaches the claimed distance
+ */
+app.post('/api/runs/:id/finish', creditLimiter, requireAuth, async (req, res) => {
+    try {
+        const { run, award } = await finishRun(req.address, req.params.id, req.body);
+
+        if (run.status !== 'verified') {
+            return res.status(422).json({ success: false, error: 'Run could not be verified', run: toRunSummary(run) });
+        }
+
+        // Runs that look scripted wait for review before they earn anything or reach the leaderboard
+        if (!award) {
+            return res.status(202).json({ success: true, held: true, run: toRunSummary(run), rewardSOL: 0, ...getSummary(req.address) });
+        }
+
+        announceAward(run, award);
+        res.json({ success: true, held: false, run: toRunSummary(run), rewardSOL: award.rewardSOL, ...getSummary(req.address) });
+    } catch (error) {
+        // Express 4 does not see errors from async handlers, so nothing may escape this one
+        if (error instanceof RunError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
+        console.error('Run finish error:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+});
+
+/**
+ * Leaderboard endpoint
+ * One page of the daily, weekly or all-time board (?offset=&limit=); pass ?address= to
+ * also get that wallet's rank, wherever it is on the board
+ */
+app.get('/api/leaderboard/:window', (req, res) => {
+    if (!isLeaderboardWindow(req.params.window)) {
+        return res.status(400).json({ success: false, error: 'Invalid leaderboard window' });
+    }
+    const address = isValidAddress(req.query.address) ? req.query.address : null;
+    res.json({ success: true, ...getLeaderboardPage(req.params.window, req.query, address) });
+});
+
+/**
+ * Ghost endpoint
+ * Seed and inputs of the caller's best run ('personal') or the #1 leaderboard run ('leader'),
+ * for the client to replay next to a live run on the same course
+ */
+app.get('/api/ghosts/:source', requireAuth, (req, res) => {
+    let ghost = null;
+    if (req.params.source === 'personal') {
+        ghost = getPersonalBestGhost(req.address);
+    } else if (req.params.source === 'leader') {
+        const leader = getAllTimeLeader();
+        ghost = leader && leader.runId ? getGhost(leader.runId) : null;
+    } else {
+        return res.status(400).json({ success: false, error: 'Invalid ghost source' });
+    }
+
+    if (!ghost) {
+        return res.status(404).json({ success: false, error: 'No replay available for this ghost' });
+    }
+    res.json({ success: true, ghost });
+});
+
 /**
  * Withdrawal endpoint
+ * Checks the payout policy, debits the ledger and queues the payout (held for approval if the
+ * policy says so); progress is pushed over socket.io as payout_update
  */
-app.post('/api/withdraw', withdrawLimiter, async (req, res) => {
+app.post('/api/withdraw', withdrawLimiter, requireAuth, async (req, res) => {
     if (!connection || !treasuryKeypair) {
         return res.status(503).json({
             success: false,
@@ -140,199 +444,422 @@ app.post('/api/withdraw', withdrawLimiter, async (req, res) => {
         });
     }
 
-    const { recipientAddress, amountSOL } = req.body;
-    const MIN_WITHDRAWAL = 0.03;
-    const MAX_WITHDRAWAL = 10;
+    // Payouts only ever go to the authenticated wallet
+    const recipientAddress = req.address;
+    const { amountSOL } = req.body;
 
-    if (!recipientAddress || typeof recipientAddress !== 'string') {
-        return res.status(400).json({ success: false, error: 'Invalid recipient address' });
-    }
     if (!amountSOL || typeof amountSOL !== 'number' || isNaN(amountSOL)) {
         return res.status(400).json({ success: false, error: 'Invalid amount' });
     }
-    if (amountSOL < MIN_WITHDRAWAL || amountSOL > MAX_WITHDRAWAL) {
-        return res.status(400).json({ success: false, error: `Amount must be between ${MIN_WITHDRAWAL} and ${MAX_WITHDRAWAL} SOL` });
-    }
+
+    const lamports = solToLamports(amountSOL);
 
     try {
-        const recipientPubkey = new PublicKey(recipientAddress);
         const treasuryBalance = await connection.getBalance(treasuryKeypair.publicKey);
-        const requiredLamports = amountSOL * LAMPORTS_PER_SOL + 5000;
-
-        if (treasuryBalance < requiredLamports) {
+        if (treasuryBalance < lamports + 5000) {
             return res.status(503).json({ success: false, error: 'Insufficient treasury balance' });
         }
+    } catch (error) {
+        return res.status(502).json({ success: false, error: error.message });
+    }
+
+    try {
+        // Evaluated right before the debit, with no await in between, so concurrent requests see each other's payouts
+        const policy = evaluateWithdrawal(recipientAddress, lamports);
+        if (policy.decision === 'refuse') {
+            return res.status(400).json({ success: false, error: policy.reason });
+        }
 
-        const transaction = new Transaction().add(
-            SystemProgram.transfer({
-                fromPubkey: treasuryKeypair.publicKey,
-                toPubkey: recipientPubkey,
-                lamports: Math.floor(amountSOL * LAMPORTS_PER_SOL),
-            })
-        );
-
-        const signature = await sendAndConfirmTransaction(
-            connection,
-            transaction,
-            [treasuryKeypair],
-            { commitment: 'confirmed' }
-        );
-
-        return res.json({
+        const payout = requestPayout(recipientAddress, lamports, policy.decision === 'hold' ? policy.reason : null);
+
+        return res.status(202).json({
             success: true,
-            txHash: signature,
-            explorerUrl: `https://solscan.io/tx/${signature}`,
+            payout: toPayoutRecord(payout),
+            balanceSOL: lamportsToSol(getBalanceLamports(recipientAddress)),
         });
     } catch (error) {
-        return res.status(500).json({ success: false, error: error.message });
+        // Express 4 does not see errors from async handlers, so nothing may escape this one
+        if (error instanceof InsufficientBalanceError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Withdrawal error:', error);
+        return res.status(500).json({ success: false, error: 'Internal server error' });
     }
 });
 
 /**
- * Redeem Code Endpoint
+ * Payout history endpoint
  */
-app.post('/api/redeem', async (req, res) => {
-    const { code, userAddress } = req.body;
+app.get('/api/payouts', requireAuth, (req, res) => {
+    res.json({ success: true, payouts: getPayoutsFor(req.address).map(toPayoutRecord) });
+});
 
-    if (!code || !userAddress) {
-        return res.status(400).json({ success: false, error: 'Missing code or user address' });
-    }
+/**
+ * Admin: payout queue and 24h volume
+ */
+app.get('/api/admin/payouts', requireAdmin, (req, res) => {
+    const payouts = getAllPayouts();
+    res.json({
+        success: true,
+        payouts: payouts.map(toPayoutRecord),
+        awaitingApproval: payouts.filter(p => p.status === 'held').length,
+        volume24hSOL: getPayoutVolume(24 * 60 * 60 * 1000),
+    });
+});
 
+/**
+ * Admin: approve or reject a held payout
+ */
+app.post('/api/admin/payouts/:id/:action', requireAdmin, (req, res) => {
+    const { id, action } = req.params;
     try {
-        const codesPath = path.join(__dirname, 'codes.json');
-
-        if (!fs.existsSync(codesPath)) {
-            return res.status(500).json({ success: false, error: 'Redemption system unavailable' });
+        let payout;
+        if (action === 'approve') {
+            payout = approvePayout(id);
+        } else if (action === 'reject') {
+            payout = rejectPayout(id, req.body && req.body.reason);
+        } else {
+            return res.status(404).json({ success: false, error: 'Unknown action' });
         }
+        res.json({ success: true, payout: toPayoutRecord(payout) });
+    } catch (error) {
+        if (error instanceof PayoutActionError) {
+            return res.status(409).json({ success: false, error: error.message });
+        }
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
 
-        const codesData = JSON.parse(fs.readFileSync(codesPath, 'utf8'));
-        const codeEntry = codesData.find(c => c.code === code);
+/**
+ * Admin: every reward schedule version that has been live, for auditing past credits
+ */
+app.get('/api/admin/rewards', requireAdmin, (req, res) => {
+    res.json({ success: true, current: getRewardSchedule().version, history: getRewardScheduleHistory() });
+});
 
-        if (!codeEntry) {
-            return res.status(400).json({ success: false, error: 'Invalid code' });
-        }
+/**
+ * Admin: runs that failed replay verification or were held by the behaviour score
+ */
+app.get('/api/admin/runs/flagged', requireAdmin, (req, res) => {
+    res.json({ success: true, runs: getFlaggedRuns().map(run => ({ ...toRunSummary(run), address: run.address })) });
+});
 
-        if (codeEntry.redeemed) {
-            return res.status(400).json({ success: false, error: 'Code already redeemed' });
+/**
+ * Admin: release a held run, crediting its rewards and score
+ */
+app.post('/api/admin/runs/:id/release', requireAdmin, (req, res) => {
+    let released;
+    try {
+        released = releaseRun(req.params.id);
+    } catch (error) {
+        if (error instanceof RunError) {
+            return res.status(error.status).json({ success: false, error: error.message });
         }
+        throw error;
+    }
 
-        // Mark as redeemed
-        codeEntry.redeemed = true;
-        codeEntry.redeemedBy = userAddress;
-        codeEntry.redeemedAt = new Date().toISOString();
+    announceAward(released.run, released.award);
+    res.json({ success: true, run: toRunSummary(released.run), rewardSOL: released.award.rewardSOL });
+});
 
-        // Save back to file
-        fs.writeFileSync(codesPath, JSON.stringify(codesData, null, 2));
+/**
+ * Admin: generate a batch of redemption codes
+ */
+app.post('/api/admin/codes', requireAdmin, (req, res) => {
+    const { count, amountSOL, expiresAt, maxUses } = req.body || {};
+    try {
+        const batch = generateCodes({ count, amountSOL, expiresAt: expiresAt || null, maxUses: maxUses === undefined ? 1 : maxUses });
+        res.json({ success: true, ...batch });
+    } catch (error) {
+        if (error instanceof CodeError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
+        throw error;
+    }
+});
+
+/**
+ * Admin: every redemption code with its uses, or one batch
+ */
+app.get('/api/admin/codes', requireAdmin, (req, res) => {
+    const batchId = typeof req.query.batch === 'string' ? req.query.batch : undefined;
+    res.json({ success: true, codes: listCodes(batchId) });
+});
 
-        return res.json({
+/**
+ * Redeem Code Endpoint
+ */
+app.post('/api/redeem', redeemLimiter, requireAuth, (req, res) => {
+    try {
+        const amount = redeemCode(req.address, req.body && req.body.code);
+        res.json({
             success: true,
-            amount: 0.03,
-            message: 'Code redeemed successfully'
+            amount,
+            message: `Code redeemed: +${amount} SOL`,
+            ...getSummary(req.address),
         });
-
     } catch (error) {
+        if (error instanceof CodeError) {
+            return res.status(error.status).json({ success: false, error: error.message });
+        }
         console.error('Redeem error:', error);
-        return res.status(500).json({ success: false, error: 'Internal server error' });
+        res.status(500).json({ success: false, error: 'Internal server error' });
     }
 });
 
-// Chat logic & Moderation
-const chatHistory = [];
-const MAX_HISTORY = 100;
-const MESSAGE_LENGTH_LIMIT = 280;
-const COOLDOWN_MS = 2000;
-
-const userCooldowns = new Map();
+// Leaderboard Logic (boards are kept in leaderboard.js)
+const leaderboardRoom = (window) => `leaderboard:${window}`;
 
-// Leaderboard Logic
-const leaderboardPath = path.join(__dirname, 'leaderboard.json');
-let leaderboard = [];
+/**
+ * Sends every socket subscribed to the given windows its page and its own rank
+ */
+const broadcastLeaderboards = async (windows) => {
+    for (const window of windows) {
+        const sockets = await io.in(leaderboardRoom(window)).fetchSockets();
+        for (const socket of sockets) {
+            const page = socket.data.leaderboards && socket.data.leaderboards[window];
+            socket.emit('leaderboard_page', getLeaderboardPage(window, page, socket.data.address));
+        }
+    }
+};
 
-// Load leaderboard
-if (fs.existsSync(leaderboardPath)) {
-    try {
-        leaderboard = JSON.parse(fs.readFileSync(leaderboardPath, 'utf8'));
-    } catch (e) {
-        console.error('Failed to load leaderboard', e);
+/**
+ * Pushes the boards a paid run changed (see awardRun in runs.js)
+ */
+const announceAward = (run, award) => {
+    broadcastLeaderboards(award.leaderboards)
+        .catch(error => console.error('Leaderboard broadcast error:', error));
+    if (award.daily && run.day === utcDay()) {
+        io.emit('daily_leaderboard_update', getDailyBoard(run.day));
     }
-}
+};
 
-const saveLeaderboard = () => {
-    try {
-        fs.writeFileSync(leaderboardPath, JSON.stringify(leaderboard, null, 2));
-    } catch (e) {
-        console.error('Failed to save leaderboard', e);
+// Pay out finished days (including any missed while the server was down) and move every
+// client onto the new day's boards once the UTC date rolls over
+let dailyBoardDay = utcDay();
+settleFinishedDays();
+setInterval(() => {
+    settleFinishedDays();
+    if (utcDay() !== dailyBoardDay) {
+        dailyBoardDay = utcDay();
+        io.emit('daily_leaderboard_update', getDailyBoard());
+        broadcastLeaderboards(['daily', 'weekly'])
+            .catch(error => console.error('Leaderboard broadcast error:', error));
     }
+}, 60 * 1000);
+
+const walletRoom = (address) => `wallet:${address}`;
+
+// Push payout state changes to every socket signed in as the payout's wallet
+initPayouts({
+    connection,
+    treasuryKeypair,
+    onUpdate: (payout) => io.to(walletRoom(payout.address)).emit('payout_update', toPayoutRecord(payout)),
+});
+
+/**
+ * Sends a socket one room's history, with the signed-in wallet's unread counts for every
+ * room it can see; the room itself counts as read from here
+ */
+const sendChatHistory = (socket, room) => {
+    const address = getSessionAddress(socket.data.token);
+    if (address) markRoomRead(address, room);
+    socket.emit('chat_history', {
+        room,
+        messages: getChatHistory(room),
+        unread: address ? getUnreadCounts(address) : {},
+    });
 };
 
-io.on('connection', (socket) => {
-    console.log(`👤 User joined: ${socket.id}`);
-    socket.emit('chat_history', chatHistory);
-    socket.emit('leaderboard_update', leaderboard);
-
-    socket.on('submit_score', (data) => {
-        const { user, score } = data;
-        if (!user || typeof score !== 'number') return;
-
-        // Check if user already exists
-        const existingEntry = leaderboard.find(e => e.user === user);
-        let updated = false;
-
-        if (existingEntry) {
-            if (score > existingEntry.score) {
-                existingEntry.score = score;
-                existingEntry.timestamp = new Date().toISOString();
-                updated = true;
+// Public rooms go to everyone so other tabs can count unread messages; direct messages
+// only reach the two wallets
+const emitToRoom = (room, event, payload) => {
+    const members = directRoomMembers(room);
+    if (members) io.to(walletRoom(members[0])).to(walletRoom(members[1])).emit(event, payload);
+    else io.emit(event, payload);
+};
+
+/**
+ * Listens for a client event, checking its payload against shared/protocol.ts first. A
+ * malformed payload never reaches the handler: the socket gets protocol_error listing what
+ * was wrong, and a failed ack if the event takes one. A handler that throws is logged and
+ * its ack, if any, fails with a generic error
+ */
+const handleEvent = (socket, event, handler) => {
+    socket.on(event, (payload, ack) => {
+        const issues = validateClientEvent(event, payload);
+        if (!issues.length) {
+            try {
+                handler(payload, ack);
+            } catch (error) {
+                console.error(`Socket ${event} error:`, error);
+                if (typeof ack === 'function') ack({ success: false, error: 'Internal error' });
             }
-        } else {
-            leaderboard.push({
-                user,
-                score,
-                timestamp: new Date().toISOString()
-            });
-            updated = true;
+            return;
         }
+        const message = `Malformed ${event} payload`;
+        socket.emit('protocol_error', { event, message, issues });
+        if (typeof ack === 'function') ack({ success: false, error: message });
+    });
+};
 
-        if (updated) {
-            // Sort by score desc, keep top 50
-            leaderboard.sort((a, b) => b.score - a.score);
-            if (leaderboard.length > 50) leaderboard.length = 50;
+io.on('connection', (socket) => {
+    console.log(`👤 User joined: ${socket.id}`);
+    // The chat room this socket is looking at
+    socket.data.chatRoom = DEFAULT_CHAT_ROOM;
+    sendChatHistory(socket, socket.data.chatRoom);
+    socket.emit('daily_leaderboard_update', getDailyBoard());
+    // Leaderboard windows this socket is subscribed to, with the page it is viewing
+    socket.data.leaderboards = {};
+
+    const on = (event, handler) => handleEvent(socket, event, handler);
+    socket.onAny((event) => {
+        if (!isClientEvent(event)) socket.emit('protocol_error', { event, message: `Unknown event ${event}`, issues: [] });
+    });
 
-            saveLeaderboard();
-            io.emit('leaderboard_update', leaderboard);
+    // Binds the socket to the wallet behind a session token
+    on('authenticate', (data, ack) => {
+        const reply = typeof ack === 'function' ? ack : () => {};
+        const { token } = data;
+        const address = getSessionAddress(token);
+        if (!address) {
+            reply({ success: false, error: 'Invalid or expired session' });
+            return;
+        }
+        if (socket.data.address && socket.data.address !== address) {
+            socket.leave(walletRoom(socket.data.address));
         }
+        socket.data.token = token;
+        socket.data.address = address;
+        socket.join(walletRoom(address));
+        reply({ success: true, address });
+
+        // History sent before sign-in had no unread counts, and pages no rank, for this wallet.
+        // A socket switching wallets may be looking at the previous wallet's direct messages
+        if (!canReadRoom(address, socket.data.chatRoom)) socket.data.chatRoom = DEFAULT_CHAT_ROOM;
+        sendChatHistory(socket, socket.data.chatRoom);
+        for (const window of Object.keys(socket.data.leaderboards)) {
+            socket.emit('leaderboard_page', getLeaderboardPage(window, socket.data.leaderboards[window], address));
+        }
+    });
+
+    // Live updates for one leaderboard window: the page asked for plus the socket's own rank
+    on('leaderboard_subscribe', ({ window, offset, limit }) => {
+        socket.data.leaderboards[window] = { offset, limit };
+        socket.join(leaderboardRoom(window));
+        socket.emit('leaderboard_page', getLeaderboardPage(window, socket.data.leaderboards[window], socket.data.address));
     });
 
-    socket.on('send_message', (data) => {
-        const now = Date.now();
-        const lastMessageTime = userCooldowns.get(socket.id) || 0;
+    on('leaderboard_unsubscribe', ({ window }) => {
+        delete socket.data.leaderboards[window];
+        socket.leave(leaderboardRoom(window));
+    });
 
-        if (now - lastMessageTime < COOLDOWN_MS) {
-            socket.emit('chat_error', { message: 'Please wait a moment before sending another message.' });
+    // Messages are always posted as the wallet behind the socket's session (see chat.js)
+    on('send_message', (data) => {
+        const address = getSessionAddress(socket.data.token);
+        if (!address) {
+            socket.emit('chat_error', { message: 'Sign in to chat.' });
             return;
         }
 
-        const text = (data.text || '').trim();
-        if (!text || text.length > MESSAGE_LENGTH_LIMIT) {
-            socket.emit('chat_error', { message: 'Invalid message length.' });
+        // { to } starts or continues a direct message conversation instead of a room. A direct
+        // room named in { room } is rebuilt from its members the same way, so only a sorted
+        // pair of real wallets is ever stored or broadcast to
+        let room = data.room || DEFAULT_CHAT_ROOM;
+        let to = data.to;
+        const members = to === undefined ? directRoomMembers(room) : null;
+        if (members) {
+            if (!members.includes(address)) {
+                socket.emit('chat_error', { message: 'Unknown chat room.' });
+                return;
+            }
+            to = members[0] === address ? members[1] : members[0];
+        }
+        if (to !== undefined) {
+            if (!isValidAddress(to)) {
+                socket.emit('chat_error', { message: 'Invalid recipient address.' });
+                return;
+            }
+            room = directRoom(address, to);
+        }
+
+        try {
+            const message = postMessage(address, data.text, room);
+            emitToRoom(room, 'receive_message', message);
+        } catch (error) {
+            if (!(error instanceof ChatError)) throw error;
+            socket.emit('chat_error', { message: error.message });
+        }
+    });
+
+    // Switches the room the socket is looking at and sends its history
+    on('chat_join', ({ room }) => {
+        if (!canReadRoom(getSessionAddress(socket.data.token), room)) {
+            socket.emit('chat_error', { message: 'Unknown chat room.' });
             return;
         }
+        socket.data.chatRoom = room;
+        sendChatHistory(socket, room);
+    });
 
-        const message = {
-            id: Date.now() + Math.random().toString(36).substr(2, 9),
-            user: data.user || 'Guest',
-            text: text,
-            timestamp: new Date().toISOString(),
-        };
+    // Messages that arrive in the room being looked at are read straight away
+    on('chat_read', ({ room }) => {
+        const address = getSessionAddress(socket.data.token);
+        if (address && canReadRoom(address, room)) markRoomRead(address, room);
+    });
 
-        chatHistory.push(message);
-        if (chatHistory.length > MAX_HISTORY) chatHistory.shift();
-        userCooldowns.set(socket.id, now);
-        io.emit('receive_message', message);
+    // Chat moderation: a socket that proves the admin key can mute, ban and delete
+    on('admin_authenticate', (data, ack) => {
+        const reply = typeof ack === 'function' ? ack : () => {};
+        socket.data.isAdmin = isAdminKey(data.key);
+        reply(socket.data.isAdmin ? { success: true } : { success: false, error: 'Invalid admin key' });
     });
 
+    const moderate = (handler) => (data, ack) => {
+        const reply = typeof ack === 'function' ? ack : () => {};
+        if (!socket.data.isAdmin) {
+            reply({ success: false, error: 'Admin access required' });
+            return;
+        }
+        try {
+            reply({ success: true, ...handler(data) });
+        } catch (error) {
+            if (!(error instanceof ChatError)) throw error;
+            reply({ success: false, error: error.message });
+        }
+    };
+
+    const sanctionTarget = (address) => {
+        if (!isValidAddress(address)) throw new ChatError('Invalid address');
+        return address;
+    };
+
+    // Tells the wallet's sockets right away rather than on their next message
+    const announceSanction = (sanction) => {
+        io.to(walletRoom(sanction.address)).emit('chat_error', { message: describeSanction(sanction) });
+        return { sanction };
+    };
+
+    on('chat_mute', moderate(({ address, minutes, reason }) =>
+        announceSanction(muteAddress(sanctionTarget(address), minutes, reason))));
+
+    on('chat_ban', moderate(({ address, reason }) =>
+        announceSanction(banAddress(sanctionTarget(address), reason))));
+
+    on('chat_unban', moderate(({ address }) => {
+        if (!liftSanction(sanctionTarget(address))) throw new ChatError('That address is not muted or banned');
+        return {};
+    }));
+
+    on('chat_delete', moderate(({ id }) => {
+        const message = deleteMessage(id);
+        if (!message) throw new ChatError('Message not found');
+        emitToRoom(message.room, 'message_deleted', { id, room: message.room });
+        return {};
+    }));
+
     socket.on('disconnect', () => {
-        userCooldowns.delete(socket.id);
         console.log(`👤 User left: ${socket.id}`);
     });
 });
@@ -345,4 +872,8 @@ httpServer.listen(PORT, '0.0.0.0', () => {
         console.log(`   Treasury: ${treasuryKeypair.publicKey.toBase58()}`);
     }
     console.log(`\n📡 Live Chat and API are active\n`);
+
+    if (connection && treasuryKeypair) {
+        recoverPayouts();
+    }
 });
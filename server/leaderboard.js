@@ -0,0 +1,94 @@
+/**
+ * Leaderboards
+ * Best verified distance per address over three windows: the current UTC day, the current
+ * UTC week (starting Monday) and all time. Every address that has scored keeps its entry,
+ * so anyone can look up their rank, and boards are read a page at a time.
+ *
+ * Scores are stored per board and period (the day or the week's Monday; empty for all
+ * time), so a new day or week simply starts reading an empty period.
+ */
+
+import { utcDay } from './daily.js';
+import { getRepository } from './storage/index.ts';
+import { LEADERBOARD_WINDOWS } from '../shared/protocol.ts';
+
+export const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Monday of the UTC week a timestamp falls in
+const utcWeek = (time = Date.now()) => {
+    const date = new Date(time);
+    const sinceMonday = (date.getUTCDay() + 6) % 7;
+    return utcDay(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - sinceMonday));
+};
+
+const PERIODS = {
+    daily: utcDay,
+    weekly: utcWeek,
+    alltime: () => '',
+};
+
+export const isLeaderboardWindow = (window) => LEADERBOARD_WINDOWS.includes(window);
+
+/**
+ * Records a verified distance on every window, keeping each address's best
+ * Returns the windows whose board changed
+ */
+export function recordLeaderboardScore(address, score, runId) {
+    const { leaderboard } = getRepository();
+    const changed = [];
+    for (const window of LEADERBOARD_WINDOWS) {
+        const period = PERIODS[window]();
+        const existing = leaderboard.get(window, period, address);
+        if (existing && existing.score >= score) continue;
+
+        // runId is the run that set the score; its replay is served as a ghost
+        leaderboard.put(window, period, { user: address, score, runId, timestamp: new Date().toISOString() });
+        changed.push(window);
+    }
+    return changed;
+}
+
+/**
+ * An address's position on a window's board, or null if it has no score there
+ */
+export function getLeaderboardRank(window, address) {
+    if (!address) return null;
+    const { leaderboard } = getRepository();
+    const period = PERIODS[window]();
+    const entry = leaderboard.get(window, period, address);
+    return entry ? { rank: leaderboard.rank(window, period, address), score: entry.score } : null;
+}
+
+/**
+ * One page of a window's board, plus the given address's own rank when known
+ * offset and limit are clamped to sane values, so they can come straight from a request
+ */
+export function getLeaderboardPage(window, { offset, limit } = {}, address = null) {
+    const { leaderboard } = getRepository();
+    const period = PERIODS[window]();
+    const start = Math.max(0, Math.floor(Number(offset)) || 0);
+    const size = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(limit)) || DEFAULT_PAGE_SIZE));
+
+    return {
+        window,
+        period: period || null,
+        total: leaderboard.count(window, period),
+        offset: start,
+        limit: size,
+        entries: leaderboard.page(window, period, start, size).map((e, i) => ({
+            rank: start + i + 1,
+            user: e.user,
+            score: e.score,
+            timestamp: e.timestamp,
+        })),
+        me: getLeaderboardRank(window, address),
+    };
+}
+
+/**
+ * The all-time #1 entry, or null if nobody has scored yet
+ */
+export function getAllTimeLeader() {
+    return getRepository().leaderboard.page('alltime', '', 0, 1)[0] || null;
+}
@@ -0,0 +1,105 @@
+/**
+ * Reward Ledger
+ * Server-side record of every credit and debit per wallet address.
+ * Balances are derived from the ledger, never from what the client reports.
+ * Amounts are stored in lamports so sums stay exact.
+ * Entries are kept in the storage repository (see storage/).
+ */
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { getRepository } from './storage/index.ts';
+
+export const CREDIT_SOURCES = ['tab_mining', 'solve', 'milestone', 'token', 'daily_pool', 'redeem', 'withdrawal_refund'];
+export const DEBIT_SOURCES = ['withdrawal'];
+
+export const solToLamports = (sol) => Math.round(sol * LAMPORTS_PER_SOL);
+export const lamportsToSol = (lamports) => lamports / LAMPORTS_PER_SOL;
+
+export class InsufficientBalanceError extends Error {
+    constructor(balanceLamports) {
+        super(`Insufficient balance (${lamportsToSol(balanceLamports)} SOL available)`);
+        this.name = 'InsufficientBalanceError';
+        this.balanceLamports = balanceLamports;
+    }
+}
+
+const createEntry = (address, kind, source, lamports, meta) => ({
+    id: Date.now().toString(36) + Math.random().toString(36).substr(2, 9),
+    address,
+    kind,
+    source,
+    lamports,
+    meta: meta || null,
+    timestamp: new Date().toISOString(),
+});
+
+/**
+ * Current balance of an address in lamports
+ */
+export function getBalanceLamports(address) {
+    const { creditedLamports, debitedLamports } = getRepository().ledger.totals(address);
+    return creditedLamports - debitedLamports;
+}
+
+/**
+ * Balance summary of an address in SOL
+ */
+export function getSummary(address) {
+    const { creditedLamports, debitedLamports } = getRepository().ledger.totals(address);
+    return {
+        balanceSOL: lamportsToSol(creditedLamports - debitedLamports),
+        earnedSOL: lamportsToSol(creditedLamports),
+        withdrawnSOL: lamportsToSol(debitedLamports),
+    };
+}
+
+/**
+ * Oldest entry for an address (used as the account's age), if any
+ */
+export function getFirstEntry(address) {
+    return getRepository().ledger.first(address);
+}
+
+/**
+ * Most recent entry for an address matching a source, if any
+ */
+export function findLastEntry(address, source) {
+    return getRepository().ledger.last(address, source);
+}
+
+/**
+ * Whether an entry with the given source and meta key already exists
+ */
+export function hasEntry(address, source, predicate) {
+    return getRepository().ledger.bySource(address, source).some(e => predicate(e.meta || {}));
+}
+
+/**
+ * Records a credit and returns the entry
+ */
+export function credit(address, source, lamports, meta) {
+    if (!CREDIT_SOURCES.includes(source)) throw new Error(`Unknown credit source: ${source}`);
+    if (!Number.isInteger(lamports) || lamports <= 0) throw new Error('Credit must be a positive lamport amount');
+
+    const entry = createEntry(address, 'credit', source, lamports, meta);
+    getRepository().ledger.append(entry);
+    return entry;
+}
+
+/**
+ * Records a debit, throwing InsufficientBalanceError if the ledger cannot cover it.
+ * The balance check and the write run in one transaction so concurrent requests cannot both spend the same funds.
+ */
+export function debit(address, source, lamports, meta) {
+    if (!DEBIT_SOURCES.includes(source)) throw new Error(`Unknown debit source: ${source}`);
+    if (!Number.isInteger(lamports) || lamports <= 0) throw new Error('Debit must be a positive lamport amount');
+
+    return getRepository().transaction(() => {
+        const balance = getBalanceLamports(address);
+        if (balance < lamports) throw new InsufficientBalanceError(balance);
+
+        const entry = createEntry(address, 'debit', source, lamports, meta);
+        getRepository().ledger.append(entry);
+        return entry;
+    });
+}
@@ -0,0 +1,31 @@
+/**
+ * Tab Mining
+ * Tab mining is paid for work, not for requests: every claim must carry a share (see
+ * shared/mining.ts) found under the claiming address's current challenge.
+ *
+ * The challenge is derived from the address's last tab mining credit, so it changes with
+ * every credit and each share can only be claimed once. It is keyed with a secret that lives
+ * as long as the process, so challenges cannot be worked out in advance; after a restart
+ * clients fetch a new one.
+ */
+
+import crypto from 'crypto';
+import { findLastEntry } from './ledger.js';
+import { isShare } from '../shared/mining.ts';
+
+const secret = crypto.randomBytes(32);
+
+/**
+ * The challenge an address's next tab mining claim must carry a share for
+ */
+export function getMiningChallenge(address) {
+    const last = findLastEntry(address, 'tab_mining');
+    return crypto.createHmac('sha256', secret).update(`${address}:${last ? last.id : ''}`).digest().readUInt32BE(0);
+}
+
+/**
+ * Whether a nonce is a share under the address's current challenge
+ */
+export function isMiningShare(address, nonce) {
+    return isShare(getMiningChallenge(address), nonce);
+}
@@ -0,0 +1,362 @@
+/**
+ * Payout Queue
+ * Durable state machine for treasury withdrawals.
+ *
+ *   [held ->] requested -> signed -> broadcast -> confirmed -> finalized
+ *                                            \-> expired (blockhash ran out, retried until MAX_ATTEMPTS)
+ *   any in-flight state -> failed (ledger refunded)
+ *
+ * Payouts the policy engine (policy.js) holds start in 'held' with a holdReason and wait
+ * for an admin to approve (-> requested) or reject (-> failed) them.
+ *
+ * Every transition is written to storage before the next network call, so a crash
+ * between send and confirm leaves the signature on disk for recoverPayouts() to reconcile.
+ */
+
+import {
+    Transaction,
+    SystemProgram,
+    PublicKey,
+    TransactionExpiredBlockheightExceededError,
+} from '@solana/web3.js';
+import { encodeBase58 } from './base58.js';
+import { credit, debit, lamportsToSol } from './ledger.js';
+import { getRepository } from './storage/index.ts';
+
+const MAX_ATTEMPTS = 3;
+const FEE_RESERVE_LAMPORTS = 5000;
+const FINALITY_POLL_MS = 15 * 1000;
+
+export const PAYOUT_STATES = ['held', 'requested', 'signed', 'broadcast', 'confirmed', 'finalized', 'failed', 'expired'];
+const IN_FLIGHT_STATES = ['signed', 'broadcast', 'confirmed'];
+const TERMINAL_STATES = ['finalized', 'failed', 'expired'];
+// Failed and expired payouts were refunded, so they do not count toward limits
+const COUNTED_STATES = PAYOUT_STATES.filter(status => status !== 'failed' && status !== 'expired');
+
+const savePayout = (payout) => getRepository().payouts.update(payout);
+
+let connection = null;
+let treasuryKeypair = null;
+let notify = () => {};
+
+// Payout ids waiting for the pipeline, and the one it is working on
+const queue = [];
+let processingId = null;
+
+/**
+ * Client-facing view of a payout (matches PayoutRecord in types.ts)
+ */
+export const toPayoutRecord = (payout) => ({
+    id: payout.id,
+    timestamp: new Date(payout.createdAt).getTime(),
+    amountSOL: lamportsToSol(payout.lamports),
+    status: payout.status,
+    txHash: payout.signature || undefined,
+    explorerUrl: payout.signature ? `https://solscan.io/tx/${payout.signature}` : undefined,
+    address: payout.address,
+    error: payout.error || undefined,
+    holdReason: payout.holdReason || undefined,
+});
+
+const transition = (payout, status, changes = {}) => {
+    Object.assign(payout, changes, { status, updatedAt: new Date().toISOString() });
+    payout.history.push({ status, at: payout.updatedAt });
+    savePayout(payout);
+    notify(payout);
+};
+
+const refund = (payout) => {
+    credit(payout.address, 'withdrawal_refund', payout.lamports, { payoutId: payout.id });
+};
+
+const fail = (payout, error) => {
+    transition(payout, 'failed', { error });
+    refund(payout);
+};
+
+// The blockhash ran out before the transaction landed: sign a fresh one or give up
+const expire = (payout) => {
+    if (payout.attempts < MAX_ATTEMPTS) {
+        transition(payout, 'expired');
+        transition(payout, 'requested', { signature: null, serializedTx: null, lastValidBlockHeight: null });
+        schedule(payout);
+    } else {
+        transition(payout, 'expired', { error: `Not confirmed after ${MAX_ATTEMPTS} attempts` });
+        refund(payout);
+    }
+};
+
+const signPayout = async (payout) => {
+    const treasuryBalance = await connection.getBalance(treasuryKeypair.publicKey);
+    if (treasuryBalance < payout.lamports + FEE_RESERVE_LAMPORTS) {
+        fail(payout, 'Insufficient treasury balance');
+        return false;
+    }
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    const transaction = new Transaction({
+        feePayer: treasuryKeypair.publicKey,
+        blockhash,
+        lastValidBlockHeight,
+    }).add(
+        SystemProgram.transfer({
+            fromPubkey: treasuryKeypair.publicKey,
+            toPubkey: new PublicKey(payout.address),
+            lamports: payout.lamports,
+        })
+    );
+    transaction.sign(treasuryKeypair);
+
+    transition(payout, 'signed', {
+        attempts: payout.attempts + 1,
+        signature: encodeBase58(transaction.signature),
+        serializedTx: transaction.serialize().toString('base64'),
+        blockhash,
+        lastValidBlockHeight,
+        error: null,
+    });
+    return true;
+};
+
+const broadcastPayout = async (payout) => {
+    // Re-sending the same signed bytes is idempotent: it can only land once
+    await connection.sendRawTransaction(Buffer.from(payout.serializedTx, 'base64'));
+    if (payout.status !== 'broadcast') transition(payout, 'broadcast');
+};
+
+const confirmPayout = async (payout) => {
+    try {
+        const result = await connection.confirmTransaction({
+            signature: payout.signature,
+            blockhash: payout.blockhash,
+            lastValidBlockHeight: payout.lastValidBlockHeight,
+        }, 'confirmed');
+
+        if (result.value.err) {
+            fail(payout, `Transaction failed: ${JSON.stringify(result.value.err)}`);
+        } else {
+            transition(payout, 'confirmed');
+        }
+    } catch (error) {
+        if (error instanceof TransactionExpiredBlockheightExceededError) {
+            expire(payout);
+        } else {
+            throw error;
+        }
+    }
+};
+
+const processPayout = async (payout) => {
+    try {
+        if (payout.status === 'requested') {
+            if (!(await signPayout(payout))) return;
+        }
+        if (payout.status === 'signed' || payout.status === 'broadcast') {
+            await broadcastPayout(payout);
+            await confirmPayout(payout);
+        }
+    } catch (error) {
+        // RPC trouble: leave the payout in its current state for the next reconcile pass
+        console.error(`Payout ${payout.id} stalled in ${payout.status}:`, error.message);
+        payout.error = error.message;
+        savePayout(payout);
+    }
+};
+
+const processQueue = async () => {
+    if (processingId) return;
+    // One payout at a time so treasury balance checks cannot race each other
+    while (queue.length > 0) {
+        processingId = queue.shift();
+        const payout = getRepository().payouts.get(processingId);
+        if (payout) await processPayout(payout);
+    }
+    processingId = null;
+};
+
+const schedule = (payout) => {
+    if (!queue.includes(payout.id)) queue.push(payout.id);
+    processQueue();
+};
+
+/**
+ * Wires the queue to the Solana connection, treasury and update listener
+ */
+export function initPayouts(options) {
+    connection = options.connection;
+    treasuryKeypair = options.treasuryKeypair;
+    notify = options.onUpdate || notify;
+}
+
+const createPayout = (address, lamports, debitId, holdReason) => {
+    const now = new Date().toISOString();
+    const status = holdReason ? 'held' : 'requested';
+    const payout = {
+        id: Date.now().toString(36) + Math.random().toString(36).substr(2, 9),
+        address,
+        lamports,
+        debitId,
+        status,
+        attempts: 0,
+        signature: null,
+        serializedTx: null,
+        blockhash: null,
+        lastValidBlockHeight: null,
+        error: null,
+        holdReason,
+        createdAt: now,
+        updatedAt: now,
+        history: [{ status, at: now }],
+    };
+    getRepository().payouts.insert(payout);
+    return payout;
+};
+
+/**
+ * Debits the ledger and adds the withdrawal to the queue, in one storage transaction so a
+ * debit never stands without its payout. The withdrawal can only spend what the address has
+ * earned (throws InsufficientBalanceError); the queue refunds the debit if the transfer
+ * fails or expires.
+ * Pass a holdReason to park it for admin approval instead of paying it out
+ */
+export function requestPayout(address, lamports, holdReason = null) {
+    const payout = getRepository().transaction(() => {
+        const debitEntry = debit(address, 'withdrawal', lamports);
+        return createPayout(address, lamports, debitEntry.id, holdReason);
+    });
+    notify(payout);
+    if (payout.status === 'requested') schedule(payout);
+    return payout;
+}
+
+export class PayoutActionError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'PayoutActionError';
+    }
+}
+
+const getHeldPayout = (id) => {
+    const payout = getRepository().payouts.get(id);
+    if (!payout) throw new PayoutActionError('Payout not found');
+    if (payout.status !== 'held') throw new PayoutActionError(`Payout is ${payout.status}, not awaiting approval`);
+    return payout;
+};
+
+/**
+ * Releases a held payout into the signing pipeline
+ */
+export function approvePayout(id) {
+    const payout = getHeldPayout(id);
+    transition(payout, 'requested', { approvedAt: new Date().toISOString() });
+    schedule(payout);
+    return payout;
+}
+
+/**
+ * Rejects a held payout and refunds the ledger
+ */
+export function rejectPayout(id, reason) {
+    const payout = getHeldPayout(id);
+    fail(payout, reason || 'Rejected by treasury admin');
+    return payout;
+}
+
+/**
+ * Every payout, newest first
+ */
+export function getAllPayouts() {
+    return getRepository().payouts.list().reverse();
+}
+
+/**
+ * Count and lamports of payouts created since a timestamp, for one address or all (address = null)
+ * Failed and expired payouts were refunded, so they do not count
+ */
+export function getPayoutTotals(sinceMs, address = null, { autoOnly = false } = {}) {
+    let count = 0;
+    let lamports = 0;
+    const filter = { statuses: COUNTED_STATES, since: new Date(sinceMs).toISOString() };
+    for (const payout of getRepository().payouts.list(address ? { ...filter, address } : filter)) {
+        if (autoOnly && payout.holdReason) continue;
+        count++;
+        lamports += payout.lamports;
+    }
+    return { count, lamports };
+}
+
+/**
+ * SOL paid out in the trailing window, based on when payouts were confirmed
+ */
+export function getPayoutVolume(windowMs) {
+    const since = Date.now() - windowMs;
+    let lamports = 0;
+    for (const payout of getRepository().payouts.list({ statuses: ['confirmed', 'finalized'] })) {
+        const confirmed = payout.history.find(h => h.status === 'confirmed') || payout.history[payout.history.length - 1];
+        if (new Date(confirmed.at).getTime() >= since) lamports += payout.lamports;
+    }
+    return lamportsToSol(lamports);
+}
+
+/**
+ * Payouts for an address, newest first
+ */
+export function getPayoutsFor(address) {
+    return getRepository().payouts.list({ address }).reverse();
+}
+
+/**
+ * Reconciles in-flight payouts with the chain
+ * Runs on startup and on a timer; confirmed payouts are promoted to finalized here too
+ */
+export async function reconcilePayouts() {
+    if (!connection) return;
+
+    const inFlight = getRepository().payouts.list({ statuses: IN_FLIGHT_STATES }).filter(p => p.signature && p.id !== processingId && !queue.includes(p.id));
+    if (inFlight.length > 0) {
+        try {
+            const { value: statuses } = await connection.getSignatureStatuses(
+                inFlight.map(p => p.signature),
+                { searchTransactionHistory: true }
+            );
+            const blockHeight = await connection.getBlockHeight('confirmed');
+
+            inFlight.forEach((payout, i) => {
+                const status = statuses[i];
+                if (status) {
+                    if (status.err) {
+                        fail(payout, `Transaction failed: ${JSON.stringify(status.err)}`);
+                    } else if (status.confirmationStatus === 'finalized') {
+                        transition(payout, 'finalized');
+                    } else if (payout.status !== 'confirmed') {
+                        transition(payout, 'confirmed');
+                    }
+                } else if (blockHeight > payout.lastValidBlockHeight) {
+                    // Never landed and can no longer land
+                    expire(payout);
+                } else if (payout.status !== 'confirmed') {
+                    // Still valid but unseen: re-send the stored transaction and keep waiting
+                    schedule(payout);
+                }
+            });
+        } catch (error) {
+            console.error('Payout reconciliation failed:', error.message);
+        }
+    }
+
+    getRepository().payouts
+        .list({ statuses: ['requested'] })
+        .forEach(schedule);
+}
+
+/**
+ * Startup recovery followed by periodic finality checks
+ */
+export async function recoverPayouts() {
+    const pending = getRepository().payouts.list({ statuses: PAYOUT_STATES.filter(status => !TERMINAL_STATES.includes(status)) });
+    if (pending.length > 0) {
+        console.log(`🔁 Reconciling ${pending.length} unfinished payout(s)`);
+    }
+    await reconcilePayouts();
+    setInterval(reconcilePayouts, FINALITY_POLL_MS).unref();
+}
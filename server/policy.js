@@ -0,0 +1,109 @@
+/**
+ * Payout Policy Engine
+ * Decides whether a withdrawal is paid automatically, held for admin approval, or refused.
+ * Rules live in payout-policy.json and are re-read whenever the file changes.
+ *
+ *   refuse: outside min/max amount, or over the address's daily count/amount caps
+ *   hold:   above the auto-approve threshold, treasury daily auto-pay budget spent,
+ *           account younger than minAccountAgeHours, code redeemed within the cool-down,
+ *           or manualApprovalOnly switched on
+ */
+
+import fs from 'fs';
+import { dataPath, loadJson } from './store.js';
+import { getFirstEntry, findLastEntry, solToLamports, lamportsToSol } from './ledger.js';
+import { getPayoutTotals } from './payouts.js';
+
+const policyPath = dataPath('payout-policy.json');
+
+const DEFAULT_POLICY = {
+    minWithdrawalSOL: 0.03,
+    maxWithdrawalSOL: 10,
+    autoApproveMaxSOL: 0.5,
+    perAddressDailyMaxSOL: 2,
+    perAddressDailyMaxRequests: 5,
+    globalDailyAutoMaxSOL: 25,
+    minAccountAgeHours: 24,
+    redeemCooldownHours: 12,
+    manualApprovalOnly: false,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let policy = DEFAULT_POLICY;
+let policyMtime = 0;
+
+/**
+ * Current policy, reloaded from disk if the file was edited
+ */
+export function getPolicy() {
+    try {
+        const { mtimeMs } = fs.statSync(policyPath);
+        if (mtimeMs !== policyMtime) {
+            policy = { ...DEFAULT_POLICY, ...loadJson(policyPath, {}) };
+            policyMtime = mtimeMs;
+            console.log('📜 Payout policy loaded');
+        }
+    } catch {
+        // No policy file: keep the defaults
+    }
+    return policy;
+}
+
+const startOfUtcDay = () => {
+    const now = new Date();
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+};
+
+const formatHours = (ms) => `${Math.ceil(ms / HOUR_MS)}h`;
+
+/**
+ * Evaluates a withdrawal request
+ * Returns { decision: 'refuse' | 'hold' | 'auto', reason }
+ */
+export function evaluateWithdrawal(address, lamports) {
+    const rules = getPolicy();
+    const amountSOL = lamportsToSol(lamports);
+    const today = startOfUtcDay();
+
+    if (amountSOL < rules.minWithdrawalSOL || amountSOL > rules.maxWithdrawalSOL) {
+        return { decision: 'refuse', reason: `Amount must be between ${rules.minWithdrawalSOL} and ${rules.maxWithdrawalSOL} SOL` };
+    }
+
+    const addressToday = getPayoutTotals(today, address);
+    if (addressToday.count >= rules.perAddressDailyMaxRequests) {
+        return { decision: 'refuse', reason: `Daily limit of ${rules.perAddressDailyMaxRequests} withdrawals reached. Try again after 00:00 UTC.` };
+    }
+    if (addressToday.lamports + lamports > solToLamports(rules.perAddressDailyMaxSOL)) {
+        const remaining = Math.max(0, rules.perAddressDailyMaxSOL - lamportsToSol(addressToday.lamports));
+        return { decision: 'refuse', reason: `Daily withdrawal cap is ${rules.perAddressDailyMaxSOL} SOL (${remaining.toFixed(4)} SOL left today)` };
+    }
+
+    if (rules.manualApprovalOnly) {
+        return { decision: 'hold', reason: 'All withdrawals are currently reviewed manually' };
+    }
+    if (amountSOL > rules.autoApproveMaxSOL) {
+        return { decision: 'hold', reason: `Withdrawals above ${rules.autoApproveMaxSOL} SOL need admin approval` };
+    }
+
+    const firstEntry = getFirstEntry(address);
+    const accountAge = firstEntry ? Date.now() - new Date(firstEntry.timestamp).getTime() : 0;
+    if (accountAge < rules.minAccountAgeHours * HOUR_MS) {
+        return { decision: 'hold', reason: `Accounts younger than ${rules.minAccountAgeHours}h are reviewed manually (${formatHours(rules.minAccountAgeHours * HOUR_MS - accountAge)} to go)` };
+    }
+
+    const lastRedeem = findLastEntry(address, 'redeem');
+    if (lastRedeem) {
+        const sinceRedeem = Date.now() - new Date(lastRedeem.timestamp).getTime();
+        if (sinceRedeem < rules.redeemCooldownHours * HOUR_MS) {
+            return { decision: 'hold', reason: `Code redeemed recently; auto-payouts resume in ${formatHours(rules.redeemCooldownHours * HOUR_MS - sinceRedeem)}` };
+        }
+    }
+
+    const autoPaidToday = getPayoutTotals(today, null, { autoOnly: true });
+    if (autoPaidToday.lamports + lamports > solToLamports(rules.globalDailyAutoMaxSOL)) {
+        return { decision: 'hold', reason: 'Daily automatic payout budget reached' };
+    }
+
+    return { decision: 'auto', reason: null };
+}
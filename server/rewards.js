@@ -0,0 +1,85 @@
+/**
+ * Reward Schedule Loader
+ * Serves the live reward schedule (see shared/rewards.ts) from reward-schedule.json and
+ * re-reads it whenever the file changes, so amounts can be tuned without a restart.
+ *
+ * Every version that has been live is kept in storage. Ledger credits record
+ * the version they were paid under, so any past payout can be checked against the exact
+ * amounts in force at the time. An edited file is only accepted if it is a valid schedule
+ * and, when any amount differs from a version already used, carries a new version number.
+ */
+
+import fs from 'fs';
+import { dataPath, loadJson } from './store.js';
+import { getRepository } from './storage/index.ts';
+import { DEFAULT_REWARD_SCHEDULE, validateRewardSchedule } from '../shared/rewards.ts';
+
+const schedulePath = dataPath('reward-schedule.json');
+
+let schedule = DEFAULT_REWARD_SCHEDULE;
+let scheduleMtime = 0;
+
+// Key order does not matter when comparing two schedules
+const canonical = (value) => {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const activate = (next) => {
+    const { rewardSchedules } = getRepository();
+    const known = rewardSchedules.get(next.version);
+    if (known) {
+        if (canonical(known.schedule) !== canonical(next)) {
+            console.error(`❌ Reward schedule v${next.version} was changed without a new version number; keeping v${schedule.version}`);
+            return;
+        }
+    } else {
+        rewardSchedules.insert({ version: next.version, activatedAt: new Date().toISOString(), schedule: next });
+    }
+    schedule = next;
+    console.log(`💰 Reward schedule v${schedule.version} loaded`);
+};
+
+/**
+ * Current schedule, reloaded from disk if the file was edited
+ */
+export function getRewardSchedule() {
+    try {
+        const { mtimeMs } = fs.statSync(schedulePath);
+        if (mtimeMs !== scheduleMtime) {
+            scheduleMtime = mtimeMs;
+            const next = loadJson(schedulePath, null);
+            const problem = validateRewardSchedule(next);
+            if (problem) {
+                console.error(`❌ Invalid reward schedule (${problem}); keeping v${schedule.version}`);
+            } else {
+                activate(next);
+            }
+        }
+    } catch {
+        // No schedule file: use the built-in defaults
+        if (scheduleMtime !== -1) {
+            scheduleMtime = -1;
+            activate(DEFAULT_REWARD_SCHEDULE);
+        }
+    }
+    return schedule;
+}
+
+/**
+ * A schedule by version, for auditing and for paying out runs held under an older version
+ */
+export function getRewardScheduleVersion(version) {
+    const entry = getRepository().rewardSchedules.get(version);
+    return entry ? entry.schedule : null;
+}
+
+/**
+ * Every version that has been live, oldest first
+ */
+export function getRewardScheduleHistory() {
+    return getRepository().rewardSchedules.list();
+}
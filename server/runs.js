@@ -0,0 +1,270 @@
+/**
+ * Runner Runs
+ * Server-issued seeds and replay verification for runner scores.
+ *
+ * A run starts with POST /api/runs, which fixes its seed and difficulty. When it ends the
+ * client sends the tick count and the ticks it jumped on; the run is re-simulated with the
+ * shared engine and only counts if the replay reaches the distance the client claimed.
+ * Runs that fail verification are stored as 'rejected' for review.
+ *
+ * Verified runs are also scored for human-like play (behavior.js); a 'held' verdict keeps
+ * the run's rewards and score back until an admin releases it.
+ *
+ * A verified run's seed and jump log double as its ghost: the client replays it next to a
+ * live run. Ghosts only play back correctly on the engine version they were recorded with.
+ *
+ * Daily runs (daily.js) are runs on the day's shared seed. Because everyone plays the same
+ * course, one good jump log could be replayed on run after run, so daily runs earn no
+ * milestone or token rewards: they are only paid from the day's pool when it settles.
+ * Their replays are not served as ghosts until the day is settled, since they would show
+ * everyone a way through the course still being competed on.
+ *
+ * An address has at most MAX_ACTIVE_RUNS unfinished runs; starting another drops its oldest.
+ */
+
+import crypto from 'crypto';
+import { GAME_CONFIG, TICK_MS, ENGINE_VERSION, getDistance } from '../shared/runner/engine.ts';
+import { replayRunInSlices, isValidJumpLog } from '../shared/runner/replay.ts';
+import { createBehaviorRecorder, scoreBehavior, REDUCED_REWARD_FACTOR } from './behavior.js';
+import { getRewardSchedule, getRewardScheduleVersion } from './rewards.js';
+import { credit, solToLamports } from './ledger.js';
+import { isDaySettled, recordDailyScore } from './daily.js';
+import { recordLeaderboardScore } from './leaderboard.js';
+import { getRepository } from './storage/index.ts';
+import { getMilestoneReward, getTokenReward } from '../shared/rewards.ts';
+
+const RUN_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours to finish a run
+const MAX_RUN_TICKS = Math.round(RUN_TTL_MS / TICK_MS);
+// Network and scheduling slack when comparing a run's ticks with wall-clock time
+const CLOCK_SLACK_MS = 5000;
+const MAX_ACTIVE_RUNS = 3;
+
+// Issued but not yet finished, by run id
+const activeRuns = new Map();
+
+export class RunError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'RunError';
+        this.status = status;
+    }
+}
+
+/**
+ * Client-facing view of a finished run
+ */
+export const toRunSummary = (run) => ({
+    runId: run.id,
+    status: run.status,
+    difficulty: run.difficulty,
+    day: run.day || undefined,
+    distance: run.distance,
+    claimedDistance: run.claimedDistance,
+    tokens: run.tokens,
+    milestones: run.milestones,
+    reason: run.reason || undefined,
+    behavior: run.behavior || undefined,
+    finishedAt: run.finishedAt,
+});
+
+/**
+ * Issues a new run for an address: on a fresh seed, or on the day's shared seed when given
+ * a daily challenge (see daily.js)
+ */
+export function startRun(address, difficulty, challenge = null) {
+    if (!GAME_CONFIG[difficulty]) throw new RunError('Invalid difficulty');
+
+    const run = {
+        id: crypto.randomBytes(12).toString('hex'),
+        address,
+        seed: challenge ? challenge.seed : crypto.randomBytes(4).readUInt32BE(0),
+        difficulty,
+        day: challenge ? challenge.day : null,
+        startedAt: Date.now(),
+    };
+    // Map order is start order, so the first runs found are the oldest
+    const active = [...activeRuns.values()].filter(r => r.address === address);
+    while (active.length >= MAX_ACTIVE_RUNS) activeRuns.delete(active.shift().id);
+    activeRuns.set(run.id, run);
+    return run;
+}
+
+const verify = async (run, log) => {
+    const { ticks, jumps, distance } = log || {};
+    if (!Number.isInteger(ticks) || ticks < 0 || ticks > MAX_RUN_TICKS) {
+        return { reason: 'Invalid tick count' };
+    }
+    // A run cannot have been played faster than real time; checked first so the size of
+    // everything below is bounded by how long the run has really been going
+    if (ticks * TICK_MS > Date.now() - run.startedAt + CLOCK_SLACK_MS) {
+        return { reason: 'Run is longer than the time since it started' };
+    }
+    if (!Number.isInteger(distance) || distance < 0) {
+        return { reason: 'Invalid distance' };
+    }
+    if (!isValidJumpLog(jumps, ticks)) {
+        return { reason: 'Invalid jump log' };
+    }
+
+    const recorder = createBehaviorRecorder();
+    const state = await replayRunInSlices(run.seed, run.difficulty, { ticks, jumps }, recorder.observe);
+    const replayDistance = getDistance(state.score);
+    if (replayDistance < distance) {
+        return { reason: `Replay reached ${replayDistance}m, not the claimed ${distance}m`, state };
+    }
+    return { state, behavior: scoreBehavior(recorder.samples, log.telemetry) };
+};
+
+/**
+ * Verifies and records a finished run, paying it unless verification failed or the
+ * behaviour score held it. Recording and paying are one storage transaction.
+ * Resolves to { run, award }: run.status is 'verified' or 'rejected', award is null when
+ * nothing was paid (see awardRun)
+ */
+export async function finishRun(address, runId, log) {
+    const run = activeRuns.get(runId);
+    if (!run || run.address !== address) throw new RunError('Unknown or expired run', 404);
+    activeRuns.delete(runId);
+
+    const { state, reason, behavior } = await verify(run, log);
+    const record = {
+        ...run,
+        finishedAt: Date.now(),
+        // Only a well-formed log is kept; it is the replay reviewers re-run
+        ticks: state ? log.ticks : null,
+        jumps: state ? log.jumps : [],
+        claimedDistance: log ? log.distance : null,
+        distance: state ? getDistance(state.score) : 0,
+        tokens: state ? state.tokensCollected : 0,
+        milestones: 0,
+        status: reason ? 'rejected' : 'verified',
+        reason: reason || null,
+        behavior: behavior || null,
+        // Rewards are paid from the schedule live at finish, even if the run is released later
+        scheduleVersion: getRewardSchedule().version,
+        engineVersion: ENGINE_VERSION,
+    };
+
+    if (record.status === 'verified') {
+        // Never credit more than the client claimed
+        record.distance = Math.min(record.distance, record.claimedDistance);
+        record.milestones = Math.floor(record.distance / 100);
+        if (behavior.verdict !== 'pass') {
+            console.warn(`🚩 Run ${run.id} from ${address} scored ${behavior.score} (${behavior.verdict}): ${behavior.reasons.join('; ')}`);
+        }
+    } else {
+        console.warn(`🚩 Run ${run.id} from ${address} rejected: ${reason}`);
+    }
+
+    const repository = getRepository();
+    return repository.transaction(() => {
+        repository.runs.insert(record);
+        const paid = record.status === 'verified' && record.behavior.verdict !== 'held';
+        return { run: record, award: paid ? awardRun(record) : null };
+    });
+}
+
+/**
+ * Runs that need review: failed verification or held by the behaviour score, newest first
+ */
+export function getFlaggedRuns() {
+    return getRepository().runs.flagged();
+}
+
+/**
+ * Releases a held run after review and pays it, in one storage transaction: if paying
+ * fails the run stays held and can be released again
+ * Returns { run, award }
+ */
+export function releaseRun(id) {
+    const repository = getRepository();
+    return repository.transaction(() => {
+        const run = repository.runs.get(id);
+        if (!run) throw new RunError('Run not found', 404);
+        if (run.status !== 'verified' || !run.behavior || run.behavior.verdict !== 'held') {
+            throw new RunError('Run is not held for review', 409);
+        }
+        run.behavior = { ...run.behavior, verdict: 'pass', releasedAt: new Date().toISOString() };
+        repository.runs.update(run);
+        return { run, award: awardRun(run) };
+    });
+}
+
+/**
+ * Credits the milestone and token rewards of a verified run from the run's difficulty
+ * table, scaled down when its behaviour score was 'reduced'. Returns the total in SOL.
+ * Uses the schedule that was live when the run finished, so a held run released later
+ * pays what it earned at the time. Rewards that come to nothing (a 0 in the schedule, or
+ * too little to survive the reduced factor) are skipped rather than credited
+ */
+export function creditRunRewards(run) {
+    const schedule = getRewardScheduleVersion(run.scheduleVersion) || getRewardSchedule();
+    const factor = run.behavior && run.behavior.verdict === 'reduced' ? REDUCED_REWARD_FACTOR : 1;
+    let total = 0;
+    for (let i = 1; i <= run.milestones; i++) {
+        const distance = i * 100;
+        const reward = getMilestoneReward(schedule, run.difficulty, distance) * factor;
+        if (solToLamports(reward) <= 0) continue;
+        credit(run.address, 'milestone', solToLamports(reward), { runId: run.id, distance, scheduleVersion: schedule.version });
+        total += reward;
+    }
+    const tokenReward = run.tokens * getTokenReward(schedule, run.difficulty) * factor;
+    if (solToLamports(tokenReward) > 0) {
+        credit(run.address, 'token', solToLamports(tokenReward), { runId: run.id, count: run.tokens, scheduleVersion: schedule.version });
+        total += tokenReward;
+    }
+    return total;
+}
+
+/**
+ * Pays a verified run: credits its rewards and puts its distance on the leaderboards and
+ * its day's board. Daily runs are only paid through the day's pool. Call inside a transaction.
+ * Returns { rewardSOL, leaderboards: windows whose board changed, daily: whether the day's board changed }
+ */
+const awardRun = (run) => {
+    const rewardSOL = run.day ? 0 : creditRunRewards(run);
+    const leaderboards = run.distance > 0 ? recordLeaderboardScore(run.address, run.distance, run.id) : [];
+    const daily = Boolean(run.day) && run.distance > 0 && recordDailyScore(run.address, run.distance, run.id, run.day);
+    return { rewardSOL, leaderboards, daily };
+};
+
+const canGhost = (run) =>
+    run.status === 'verified'
+    && run.engineVersion === ENGINE_VERSION
+    && (!run.behavior || run.behavior.verdict !== 'held')
+    && Number.isInteger(run.ticks)
+    && (!run.day || isDaySettled(run.day));
+
+const toGhost = (run) => ({
+    runId: run.id,
+    address: run.address,
+    seed: run.seed,
+    difficulty: run.difficulty,
+    ticks: run.ticks,
+    jumps: run.jumps,
+    distance: run.distance,
+});
+
+/**
+ * Replay of a run for ghost racing, or null if it cannot be played back
+ */
+export function getGhost(runId) {
+    const run = getRepository().runs.get(runId);
+    return run && canGhost(run) ? toGhost(run) : null;
+}
+
+/**
+ * Replay of an address's longest run, or null if it has none that can be played back
+ */
+export function getPersonalBestGhost(address) {
+    const best = getRepository().runs.verified(address).find(canGhost);
+    return best ? toGhost(best) : null;
+}
+
+// Forget runs that were started but never finished
+setInterval(() => {
+    const cutoff = Date.now() - RUN_TTL_MS;
+    for (const [id, run] of activeRuns) {
+        if (run.startedAt < cutoff) activeRuns.delete(id);
+    }
+}, 10 * 60 * 1000).unref();
@@ -0,0 +1,35 @@
+/**
+ * Storage
+ * The repository the rest of the server reads and writes through. Opened on first use:
+ * the SQLite database at DATABASE_PATH (default server/runner.db), or an in-memory store
+ * when STORAGE=memory. Tests can install their own with setRepository().
+ */
+
+import { dataPath } from '../store.js';
+import type { Repository } from './repository.ts';
+import { openSqliteRepository } from './sqlite.ts';
+import { createMemoryRepository } from './memory.ts';
+
+export type * from './repository.ts';
+
+let repository: Repository | null = null;
+
+/**
+ * The active repository, opening the configured one if none is open yet
+ */
+export function getRepository(): Repository {
+    if (!repository) {
+        repository = process.env.STORAGE === 'memory'
+            ? createMemoryRepository()
+            : openSqliteRepository(process.env.DATABASE_PATH || dataPath('runner.db'));
+    }
+    return repository;
+}
+
+/**
+ * Replaces the active repository, closing the previous one
+ */
+export function setRepository(next: Repository): void {
+    if (repository && repository !== next) repository.close();
+    repository = next;
+}
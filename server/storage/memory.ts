@@ -0,0 +1,193 @@
+/**
+ * In-Memory Repository
+ * The storage interface over plain arrays, for tests and throwaway local runs
+ * (STORAGE=memory). Nothing survives a restart.
+ */
+
+import type { Repository, LedgerEntry, Payout, ScoreEntry, RedemptionCode, ChatMessage, ChatSanction, RunRecord, DailyDay, RewardScheduleVersion } from './repository.ts';
+import { byRank } from './repository.ts';
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+export function createMemoryRepository(): Repository {
+    const ledger: LedgerEntry[] = [];
+    const payouts: Payout[] = [];
+    const scores = new Map<string, ScoreEntry[]>();
+    const codes = new Map<string, RedemptionCode>();
+    const redemptions = new Map<string, Set<string>>();
+    const chat: ChatMessage[] = [];
+    const sanctions = new Map<string, ChatSanction>();
+    const reads = new Map<string, string>();
+    const runs: RunRecord[] = [];
+    const days = new Map<string, DailyDay>();
+    let dailySecret: string | null = null;
+    const rewardSchedules: RewardScheduleVersion[] = [];
+
+    const board = (name: string, period: string) => {
+        const key = `${name}:${period}`;
+        if (!scores.has(key)) scores.set(key, []);
+        return scores.get(key)!;
+    };
+
+    return {
+        ledger: {
+            append: (entry) => { ledger.push(clone(entry)); },
+            totals: (address) => {
+                let creditedLamports = 0;
+                let debitedLamports = 0;
+                for (const entry of ledger) {
+                    if (entry.address !== address) continue;
+                    if (entry.kind === 'credit') creditedLamports += entry.lamports;
+                    else debitedLamports += entry.lamports;
+                }
+                return { creditedLamports, debitedLamports };
+            },
+            first: (address) => {
+                const entry = ledger.find(e => e.address === address);
+                return entry ? clone(entry) : null;
+            },
+            last: (address, source) => {
+                for (let i = ledger.length - 1; i >= 0; i--) {
+                    if (ledger[i].address === address && ledger[i].source === source) return clone(ledger[i]);
+                }
+                return null;
+            },
+            bySource: (address, source) => ledger.filter(e => e.address === address && e.source === source).map(clone),
+        },
+
+        payouts: {
+            insert: (payout) => { payouts.push(clone(payout)); },
+            update: (payout) => {
+                const index = payouts.findIndex(p => p.id === payout.id);
+                if (index !== -1) payouts[index] = clone(payout);
+            },
+            get: (id) => {
+                const payout = payouts.find(p => p.id === id);
+                return payout ? clone(payout) : null;
+            },
+            list: (filter = {}) => payouts
+                .filter(p => !filter.address || p.address === filter.address)
+                .filter(p => !filter.statuses || filter.statuses.includes(p.status))
+                .filter(p => !filter.since || p.createdAt >= filter.since)
+                .map(clone),
+        },
+
+        leaderboard: {
+            get: (name, period, address) => {
+                const entry = board(name, period).find(e => e.user === address);
+                return entry ? clone(entry) : null;
+            },
+            put: (name, period, entry) => {
+                const entries = board(name, period);
+                const index = entries.findIndex(e => e.user === entry.user);
+                if (index === -1) entries.push(clone(entry));
+                else entries[index] = clone(entry);
+                entries.sort(byRank);
+            },
+            page: (name, period, offset, limit) => board(name, period).slice(offset, offset + limit).map(clone),
+            count: (name, period) => board(name, period).length,
+            rank: (name, period, address) => {
+                const index = board(name, period).findIndex(e => e.user === address);
+                return index === -1 ? null : index + 1;
+            },
+        },
+
+        codes: {
+            insert: (list) => {
+                for (const code of list) {
+                    if (!codes.has(code.code)) codes.set(code.code, clone(code));
+                }
+            },
+            get: (code) => {
+                const entry = codes.get(code);
+                return entry ? clone(entry) : null;
+            },
+            list: (filter = {}) => [...codes.values()]
+                .filter(c => !filter.batchId || c.batchId === filter.batchId)
+                .map(clone),
+            redeem: (code, address, at) => {
+                const entry = codes.get(code);
+                if (!entry) return 'not_found';
+                if (entry.expiresAt && entry.expiresAt <= at) return 'expired';
+                if (!redemptions.has(code)) redemptions.set(code, new Set());
+                if (redemptions.get(code)!.has(address)) return 'already_redeemed';
+                if (entry.uses >= entry.maxUses) return 'used_up';
+                entry.uses++;
+                redemptions.get(code)!.add(address);
+                return 'redeemed';
+            },
+        },
+
+        chat: {
+            append: (message) => { chat.push(clone(message)); },
+            recent: (room, limit) => chat.filter(m => m.room === room).slice(-limit).map(clone),
+            remove: (id) => {
+                const index = chat.findIndex(m => m.id === id);
+                return index === -1 ? null : chat.splice(index, 1)[0];
+            },
+            directRooms: (address) => [...new Set(chat
+                .map(m => m.room)
+                .filter(room => room.startsWith('dm:') && room.slice(3).split(':').includes(address)))],
+            markRead: (address, room, at) => { reads.set(`${address}:${room}`, at); },
+            unreadCount: (address, room, limit) => {
+                const since = reads.get(`${address}:${room}`) || '';
+                const unread = chat.filter(m => m.room === room && m.address !== address && m.timestamp > since).length;
+                return Math.min(unread, limit);
+            },
+            getSanction: (address) => {
+                const sanction = sanctions.get(address);
+                return sanction ? clone(sanction) : null;
+            },
+            putSanction: (sanction) => { sanctions.set(sanction.address, clone(sanction)); },
+            clearSanction: (address) => sanctions.delete(address),
+        },
+
+        runs: {
+            insert: (run) => { runs.push(clone(run)); },
+            update: (run) => {
+                const index = runs.findIndex(r => r.id === run.id);
+                if (index !== -1) runs[index] = clone(run);
+            },
+            get: (id) => {
+                const run = runs.find(r => r.id === id);
+                return run ? clone(run) : null;
+            },
+            flagged: () => runs
+                .filter(r => r.status === 'rejected' || (r.behavior && r.behavior.verdict === 'held'))
+                .reverse()
+                .map(clone),
+            verified: (address) => runs
+                .filter(r => r.address === address && r.status === 'verified')
+                .sort((a, b) => b.distance - a.distance)
+                .map(clone),
+        },
+
+        daily: {
+            getDay: (day) => {
+                const record = days.get(day);
+                return record ? clone(record) : null;
+            },
+            putDay: (record) => { days.set(record.day, clone(record)); },
+            unsettledBefore: (day) => [...days.values()]
+                .filter(d => d.day < day && !d.settledAt)
+                .sort((a, b) => a.day.localeCompare(b.day))
+                .map(clone),
+            getSecret: () => dailySecret,
+            setSecret: (secret) => { dailySecret = secret; },
+        },
+
+        rewardSchedules: {
+            get: (version) => {
+                const entry = rewardSchedules.find(e => e.version === version);
+                return entry ? clone(entry) : null;
+            },
+            insert: (entry) => { rewardSchedules.push(clone(entry)); },
+            list: () => rewardSchedules.map(clone),
+        },
+
+        // Writes go straight into the arrays, so a throw cannot be rolled back; everything
+        // runs synchronously, so nothing else can interleave either
+        transaction: (fn) => fn(),
+        close: () => {},
+    };
+}
@@ -0,0 +1,343 @@
+/**
+ * Database Migrations
+ * Ordered schema changes for the SQLite store. Each one runs once, inside a transaction,
+ * and is recorded in schema_migrations; add new ones to the end of the list and never edit
+ * one that has shipped.
+ */
+
+import fs from 'fs';
+import type { Database } from 'better-sqlite3';
+import type { RunRecord, DailyPayout, RewardScheduleVersion } from './repository.ts';
+import { dataPath, loadJson } from '../store.js';
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database) => void;
+}
+
+// Rows of the JSON documents the server kept before the database, as far as the imports read them
+interface LegacyLedgerEntry {
+    id: string;
+    address: string;
+    kind: string;
+    source: string;
+    lamports: number;
+    meta?: Record<string, unknown> | null;
+    timestamp: string;
+}
+
+interface LegacyPayout {
+    id: string;
+    address: string;
+    status: string;
+    createdAt: string;
+}
+
+interface LegacyScore {
+    user: string;
+    score: number;
+    runId?: string | null;
+    timestamp: string;
+}
+
+interface LegacyCode {
+    code: string;
+    redeemed?: boolean;
+    redeemedBy?: string | null;
+    redeemedAt?: string | null;
+}
+
+interface LegacyDaily {
+    secret?: string | null;
+    days?: Record<string, {
+        seed: number;
+        difficulty: string;
+        settledAt?: string | null;
+        payouts?: DailyPayout[];
+        entries?: LegacyScore[];
+    }>;
+}
+
+// JSON documents the server kept before the database; read once by the import migrations (2, 7 and 9)
+const readLegacy = <T>(fileName: string): T | null => {
+    const filePath = dataPath(fileName);
+    return fs.existsSync(filePath) ? loadJson(filePath, null) : null;
+};
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'initial_schema',
+        up: (db) => db.exec(`
+            CREATE TABLE ledger_entries (
+                seq INTEGER PRIMARY KEY AUTOINCREMENT,
+                id TEXT NOT NULL UNIQUE,
+                address TEXT NOT NULL,
+                kind TEXT NOT NULL CHECK (kind IN ('credit', 'debit')),
+                source TEXT NOT NULL,
+                lamports INTEGER NOT NULL CHECK (lamports > 0),
+                meta TEXT,
+                timestamp TEXT NOT NULL
+            );
+            CREATE INDEX ledger_entries_address ON ledger_entries (address, source);
+
+            CREATE TABLE payouts (
+                seq INTEGER PRIMARY KEY AUTOINCREMENT,
+                id TEXT NOT NULL UNIQUE,
+                address TEXT NOT NULL,
+                status TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                data TEXT NOT NULL
+            );
+            CREATE INDEX payouts_address ON payouts (address);
+            CREATE INDEX payouts_status ON payouts (status);
+
+            CREATE TABLE leaderboard_scores (
+                board TEXT NOT NULL,
+                period TEXT NOT NULL,
+                address TEXT NOT NULL,
+                score INTEGER NOT NULL,
+                run_id TEXT,
+                achieved_at TEXT NOT NULL,
+                PRIMARY KEY (board, period, address)
+            );
+            CREATE INDEX leaderboard_scores_rank ON leaderboard_scores (board, period, score DESC, achieved_at);
+
+            CREATE TABLE redemption_codes (
+                code TEXT PRIMARY KEY,
+                redeemed_by TEXT,
+                redeemed_at TEXT
+            );
+
+            CREATE TABLE chat_messages (
+                seq INTEGER PRIMARY KEY AUTOINCREMENT,
+                id TEXT NOT NULL UNIQUE,
+                author TEXT NOT NULL,
+                text TEXT NOT NULL,
+                timestamp TEXT NOT NULL
+            );
+        `),
+    },
+    {
+        version: 2,
+        name: 'import_json_files',
+        up: (db) => {
+            const ledger = readLegacy<LegacyLedgerEntry[]>('ledger.json') || [];
+            const insertEntry = db.prepare(`
+                INSERT INTO ledger_entries (id, address, kind, source, lamports, meta, timestamp)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+            for (const e of ledger) {
+                insertEntry.run(e.id, e.address, e.kind, e.source, e.lamports, e.meta ? JSON.stringify(e.meta) : null, e.timestamp);
+            }
+
+            const payouts = readLegacy<LegacyPayout[]>('payouts.json') || [];
+            const insertPayout = db.prepare('INSERT INTO payouts (id, address, status, created_at, data) VALUES (?, ?, ?, ?, ?)');
+            for (const p of payouts) {
+                insertPayout.run(p.id, p.address, p.status, p.createdAt, JSON.stringify(p));
+            }
+
+            const insertScore = db.prepare(`
+                INSERT OR REPLACE INTO leaderboard_scores (board, period, address, score, run_id, achieved_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const importBoard = (board: string, period: string, entries: LegacyScore[]) => {
+                for (const e of entries) insertScore.run(board, period, e.user, e.score, e.runId || null, e.timestamp);
+            };
+            importBoard('alltime', '', readLegacy<LegacyScore[]>('leaderboard.json') || []);
+            const windows = readLegacy<Record<string, { period: string; entries: LegacyScore[] }>>('leaderboard-windows.json') || {};
+            for (const [board, { period, entries }] of Object.entries(windows)) importBoard(board, period, entries);
+            const daily = readLegacy<LegacyDaily>('daily.json');
+            for (const [day, record] of Object.entries((daily && daily.days) || {})) importBoard('dailyrun', day, record.entries || []);
+
+            const codes = readLegacy<LegacyCode[]>('codes.json') || [];
+            const insertCode = db.prepare('INSERT OR IGNORE INTO redemption_codes (code, redeemed_by, redeemed_at) VALUES (?, ?, ?)');
+            for (const c of codes) {
+                // Very old entries only recorded the flag, not who used the code
+                const redeemedBy = c.redeemed ? c.redeemedBy || 'unknown' : null;
+                insertCode.run(c.code, redeemedBy, c.redeemed ? c.redeemedAt || null : null);
+            }
+
+            console.log(`📦 Imported ${ledger.length} ledger entries, ${payouts.length} payouts and ${codes.length} codes from JSON files`);
+        },
+    },
+    {
+        version: 3,
+        name: 'code_amounts_and_uses',
+        // Existing codes keep what they were: single-use, no expiry, paying the old flat 0.03 SOL
+        up: (db) => db.exec(`
+            ALTER TABLE redemption_codes ADD COLUMN amount_lamports INTEGER NOT NULL DEFAULT 30000000;
+            ALTER TABLE redemption_codes ADD COLUMN max_uses INTEGER NOT NULL DEFAULT 1;
+            ALTER TABLE redemption_codes ADD COLUMN uses INTEGER NOT NULL DEFAULT 0;
+            ALTER TABLE redemption_codes ADD COLUMN expires_at TEXT;
+            ALTER TABLE redemption_codes ADD COLUMN batch_id TEXT;
+            ALTER TABLE redemption_codes ADD COLUMN created_at TEXT;
+            CREATE INDEX redemption_codes_batch ON redemption_codes (batch_id);
+
+            CREATE TABLE code_redemptions (
+                code TEXT NOT NULL REFERENCES redemption_codes (code),
+                address TEXT NOT NULL,
+                redeemed_at TEXT NOT NULL,
+                PRIMARY KEY (code, address)
+            );
+            INSERT INTO code_redemptions (code, address, redeemed_at)
+                SELECT code, redeemed_by, COALESCE(redeemed_at, '') FROM redemption_codes WHERE redeemed_by IS NOT NULL;
+            UPDATE redemption_codes SET uses = 1 WHERE redeemed_by IS NOT NULL;
+
+            ALTER TABLE redemption_codes DROP COLUMN redeemed_by;
+            ALTER TABLE redemption_codes DROP COLUMN redeemed_at;
+        `),
+    },
+    {
+        version: 4,
+        name: 'chat_moderation',
+        // Older messages only kept the shortened name, so their address stays empty
+        up: (db) => db.exec(`
+            ALTER TABLE chat_messages ADD COLUMN address TEXT;
+
+            CREATE TABLE chat_sanctions (
+                address TEXT PRIMARY KEY,
+                kind TEXT NOT NULL CHECK (kind IN ('mute', 'ban')),
+                until TEXT,
+                reason TEXT,
+                created_at TEXT NOT NULL
+            );
+        `),
+    },
+    {
+        version: 5,
+        name: 'chat_rooms',
+        // Everything said before rooms existed was said in general
+        up: (db) => db.exec(`
+            ALTER TABLE chat_messages ADD COLUMN room TEXT NOT NULL DEFAULT 'general';
+            CREATE INDEX chat_messages_room ON chat_messages (room, seq);
+
+            CREATE TABLE chat_reads (
+                address TEXT NOT NULL,
+                room TEXT NOT NULL,
+                read_at TEXT NOT NULL,
+                PRIMARY KEY (address, room)
+            );
+        `),
+    },
+    {
+        version: 6,
+        name: 'expire_legacy_codes',
+        // Codes imported from codes.json predate batches and were published with the source,
+        // so anyone could redeem them; they stop working, and past redemptions stay recorded
+        up: (db) => {
+            const now = new Date().toISOString();
+            const { changes } = db.prepare(`
+                UPDATE redemption_codes SET expires_at = ?
+                WHERE batch_id IS NULL AND (expires_at IS NULL OR expires_at > ?)
+            `).run(now, now);
+            if (changes) console.log(`🎟️  Expired ${changes} legacy code(s)`);
+        },
+    },
+    {
+        version: 7,
+        name: 'runs_and_daily',
+        // Runs are a JSON document per row like payouts, with the columns lookups need beside it
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE runs (
+                    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+                    id TEXT NOT NULL UNIQUE,
+                    address TEXT NOT NULL,
+                    status TEXT NOT NULL,
+                    distance INTEGER NOT NULL,
+                    -- Rejected, or held by the behaviour score
+                    flagged INTEGER NOT NULL,
+                    data TEXT NOT NULL
+                );
+                CREATE INDEX runs_address ON runs (address, status, distance DESC);
+                CREATE INDEX runs_flagged ON runs (flagged, seq);
+
+                CREATE TABLE daily_days (
+                    day TEXT PRIMARY KEY,
+                    seed INTEGER NOT NULL,
+                    difficulty TEXT NOT NULL,
+                    settled_at TEXT,
+                    payouts TEXT NOT NULL
+                );
+
+                CREATE TABLE settings (
+                    key TEXT PRIMARY KEY,
+                    value TEXT NOT NULL
+                );
+            `);
+
+            const runs = readLegacy<RunRecord[]>('runs.json') || [];
+            const insertRun = db.prepare('INSERT OR IGNORE INTO runs (id, address, status, distance, flagged, data) VALUES (?, ?, ?, ?, ?, ?)');
+            for (const r of runs) {
+                const flagged = r.status === 'rejected' || (r.behavior && r.behavior.verdict === 'held');
+                insertRun.run(r.id, r.address, r.status, r.distance, flagged ? 1 : 0, JSON.stringify(r));
+            }
+
+            // The secret has to come along, or days not played yet would get a different course
+            const daily = readLegacy<LegacyDaily>('daily.json');
+            if (daily && daily.secret) {
+                db.prepare("INSERT INTO settings (key, value) VALUES ('daily_seed_secret', ?)").run(daily.secret);
+            }
+            const insertDay = db.prepare('INSERT INTO daily_days (day, seed, difficulty, settled_at, payouts) VALUES (?, ?, ?, ?, ?)');
+            const days = Object.entries((daily && daily.days) || {});
+            for (const [day, record] of days) {
+                insertDay.run(day, record.seed, record.difficulty, record.settledAt || null, JSON.stringify(record.payouts || []));
+            }
+
+            console.log(`📦 Imported ${runs.length} runs and ${days.length} daily run days from JSON files`);
+        },
+    },
+    {
+        version: 8,
+        name: 'payouts_created_at',
+        // The payout policy sums the day's payouts across every address
+        up: (db) => db.exec('CREATE INDEX payouts_created_at ON payouts (created_at)'),
+    },
+    {
+        version: 9,
+        name: 'reward_schedules',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE reward_schedules (
+                    version INTEGER PRIMARY KEY,
+                    activated_at TEXT NOT NULL,
+                    schedule TEXT NOT NULL
+                )
+            `);
+
+            const history = readLegacy<RewardScheduleVersion[]>('reward-history.json') || [];
+            const insert = db.prepare('INSERT OR IGNORE INTO reward_schedules (version, activated_at, schedule) VALUES (?, ?, ?)');
+            for (const e of history) {
+                insert.run(e.version, e.activatedAt, JSON.stringify(e.schedule));
+            }
+            if (history.length) console.log(`📦 Imported ${history.length} reward schedule version(s) from reward-history.json`);
+        },
+    },
+];
+
+/**
+ * Applies every migration newer than the database's current version
+ */
+export function migrate(db: Database, migrations: Migration[] = MIGRATIONS) {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+    const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    const current = row.version || 0;
+
+    for (const migration of migrations) {
+        if (migration.version <= current) continue;
+        db.transaction(() => {
+            migration.up(db);
+            db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+                .run(migration.version, migration.name, new Date().toISOString());
+        })();
+        console.log(`🗄️  Applied migration ${migration.version} (${migration.name})`);
+    }
+}
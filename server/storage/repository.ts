@@ -0,0 +1,263 @@
+/**
+ * Storage Repository
+ * The server's persistent state behind one typed interface: the reward ledger, the payout
+ * queue, leaderboard scores, redemption codes, chat history, finished runner runs, the
+ * daily run's days and every reward schedule version that has been live. sqlite.ts is the real
+ * implementation; memory.ts keeps everything in plain arrays for tests and local runs.
+ *
+ * Every method is synchronous, like the JSON files it replaces, so a read-check-write such
+ * as a ledger debit runs start to finish without another request getting in between. Use
+ * transaction() when several writes must land together or not at all.
+ */
+
+import type { RewardSchedule } from '../../shared/rewards.ts';
+
+export type LedgerKind = 'credit' | 'debit';
+
+export interface LedgerEntry {
+    id: string;
+    address: string;
+    kind: LedgerKind;
+    source: string;
+    lamports: number;
+    meta: Record<string, unknown> | null;
+    timestamp: string;
+}
+
+export interface LedgerTotals {
+    creditedLamports: number;
+    debitedLamports: number;
+}
+
+export interface LedgerRepository {
+    append(entry: LedgerEntry): void;
+    totals(address: string): LedgerTotals;
+    // Oldest entry for the address, if any
+    first(address: string): LedgerEntry | null;
+    // Newest entry for the address from one source, if any
+    last(address: string, source: string): LedgerEntry | null;
+    // Entries for the address from one source, oldest first
+    bySource(address: string, source: string): LedgerEntry[];
+}
+
+export interface PayoutHistoryItem {
+    status: string;
+    at: string;
+}
+
+// Field-for-field the record payouts.js keeps for each withdrawal
+export interface Payout {
+    id: string;
+    address: string;
+    lamports: number;
+    debitId: string;
+    status: string;
+    attempts: number;
+    signature: string | null;
+    serializedTx: string | null;
+    blockhash: string | null;
+    lastValidBlockHeight: number | null;
+    error: string | null;
+    holdReason: string | null;
+    approvedAt?: string;
+    createdAt: string;
+    updatedAt: string;
+    history: PayoutHistoryItem[];
+}
+
+export interface PayoutRepository {
+    insert(payout: Payout): void;
+    update(payout: Payout): void;
+    get(id: string): Payout | null;
+    // Oldest first; narrowed to one address, a set of statuses or those created at or after
+    // an ISO time when given
+    list(filter?: { address?: string; statuses?: string[]; since?: string }): Payout[];
+}
+
+// 'alltime' boards use an empty period
+export interface ScoreEntry {
+    user: string;
+    score: number;
+    runId: string | null;
+    timestamp: string;
+}
+
+export interface LeaderboardRepository {
+    get(board: string, period: string, address: string): ScoreEntry | null;
+    // Inserts or replaces the address's entry
+    put(board: string, period: string, entry: ScoreEntry): void;
+    // Best first; ties go to whoever got there first
+    page(board: string, period: string, offset: number, limit: number): ScoreEntry[];
+    count(board: string, period: string): number;
+    // 1-based position, or null if the address has no entry
+    rank(board: string, period: string, address: string): number | null;
+}
+
+export interface RedemptionCode {
+    code: string;
+    amountLamports: number;
+    maxUses: number;
+    uses: number;
+    expiresAt: string | null;
+    // Codes generated together share a batch id
+    batchId: string | null;
+    createdAt: string | null;
+}
+
+export type RedeemOutcome = 'redeemed' | 'not_found' | 'expired' | 'used_up' | 'already_redeemed';
+
+export interface CodeRepository {
+    insert(codes: RedemptionCode[]): void;
+    get(code: string): RedemptionCode | null;
+    // Oldest first; narrowed to one batch when given
+    list(filter?: { batchId?: string }): RedemptionCode[];
+    // Uses up one redemption of the code for the address, if it is live, has uses left and
+    // the address has not redeemed it before; the check and the write are one step
+    redeem(code: string, address: string, at: string): RedeemOutcome;
+}
+
+export interface ChatMessage {
+    id: string;
+    // Display name, derived from the address
+    user: string;
+    // Wallet that sent it; null for messages from before names were bound to wallets
+    address: string | null;
+    // A public room name or a direct message room (see shared/chat.ts)
+    room: string;
+    text: string;
+    timestamp: string;
+}
+
+export type ChatSanctionKind = 'mute' | 'ban';
+
+export interface ChatSanction {
+    address: string;
+    kind: ChatSanctionKind;
+    // Mutes run out; bans have no end
+    until: string | null;
+    reason: string | null;
+    createdAt: string;
+}
+
+export interface ChatRepository {
+    append(message: ChatMessage): void;
+    // The latest messages in a room, oldest first
+    recent(room: string, limit: number): ChatMessage[];
+    // Returns the removed message, or null if there was no such message
+    remove(id: string): ChatMessage | null;
+    // Direct message rooms the address has a message in
+    directRooms(address: string): string[];
+    // Everything in the room up to `at` counts as read by the address
+    markRead(address: string, room: string, at: string): void;
+    // Messages from others in the room since the address last read it, counting at most limit
+    unreadCount(address: string, room: string, limit: number): number;
+    getSanction(address: string): ChatSanction | null;
+    // Replaces any sanction the address already has
+    putSanction(sanction: ChatSanction): void;
+    clearSanction(address: string): boolean;
+}
+
+export type BehaviorVerdict = 'pass' | 'reduced' | 'held';
+
+// Proof-of-human score of a run (see behavior.js)
+export interface RunBehavior {
+    score: number;
+    verdict: BehaviorVerdict;
+    reasons: string[];
+    // Set when an admin released a held run
+    releasedAt?: string;
+}
+
+// Field-for-field the record runs.js keeps for each finished run
+export interface RunRecord {
+    id: string;
+    address: string;
+    seed: number;
+    difficulty: string;
+    // UTC date of a daily run; null for regular runs
+    day: string | null;
+    startedAt: number;
+    finishedAt: number;
+    // The replayed log; null and empty when the log was malformed
+    ticks: number | null;
+    jumps: number[];
+    claimedDistance: number | null;
+    distance: number;
+    tokens: number;
+    milestones: number;
+    status: 'verified' | 'rejected';
+    reason: string | null;
+    behavior: RunBehavior | null;
+    scheduleVersion: number;
+    engineVersion: number;
+}
+
+export interface RunRepository {
+    insert(run: RunRecord): void;
+    update(run: RunRecord): void;
+    get(id: string): RunRecord | null;
+    // Rejected runs and runs held by the behaviour score, newest first
+    flagged(): RunRecord[];
+    // The address's verified runs, longest first
+    verified(address: string): RunRecord[];
+}
+
+export interface DailyPayout {
+    address: string;
+    rank: number;
+    distance: number;
+    rewardSOL: number;
+}
+
+export interface DailyDay {
+    // UTC date, YYYY-MM-DD
+    day: string;
+    seed: number;
+    difficulty: string;
+    settledAt: string | null;
+    payouts: DailyPayout[];
+}
+
+export interface DailyRepository {
+    getDay(day: string): DailyDay | null;
+    // Inserts or replaces the day
+    putDay(day: DailyDay): void;
+    // Days before the given date that have not been settled, oldest first
+    unsettledBefore(day: string): DailyDay[];
+    // Secret the daily seeds are derived from when DAILY_SEED_SECRET is not set
+    getSecret(): string | null;
+    setSecret(secret: string): void;
+}
+
+export interface RewardScheduleVersion {
+    version: number;
+    activatedAt: string;
+    schedule: RewardSchedule;
+}
+
+export interface RewardScheduleRepository {
+    get(version: number): RewardScheduleVersion | null;
+    insert(entry: RewardScheduleVersion): void;
+    // Every version that has been live, oldest first
+    list(): RewardScheduleVersion[];
+}
+
+export interface Repository {
+    ledger: LedgerRepository;
+    payouts: PayoutRepository;
+    leaderboard: LeaderboardRepository;
+    codes: CodeRepository;
+    chat: ChatRepository;
+    runs: RunRepository;
+    daily: DailyRepository;
+    rewardSchedules: RewardScheduleRepository;
+    // Runs fn so that either all of its writes are kept or, if it throws, none are
+    transaction<T>(fn: () => T): T;
+    close(): void;
+}
+
+/**
+ * Leaderboard order shared by every implementation
+ */
+export const byRank = (a: ScoreEntry, b: ScoreEntry) =>
+    b.score - a.score || a.timestamp.localeCompare(b.timestamp);
@@ -0,0 +1,373 @@
+/**
+ * SQLite Repository
+ * The storage interface on an embedded SQLite database (better-sqlite3). The schema is
+ * brought up to date by migrations.ts when the database is opened.
+ *
+ * Payouts, runs and reward schedules are stored as a JSON document per row, with the columns they are looked
+ * up by pulled out next to it; everything else maps onto plain columns.
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+import type { Repository, LedgerEntry, Payout, ScoreEntry, RedemptionCode, RedeemOutcome, ChatMessage, ChatSanction, RunRecord, DailyDay, RewardScheduleVersion } from './repository.ts';
+import { migrate } from './migrations.ts';
+
+interface LedgerRow {
+    id: string;
+    address: string;
+    kind: LedgerEntry['kind'];
+    source: string;
+    lamports: number;
+    meta: string | null;
+    timestamp: string;
+}
+
+interface ScoreRow {
+    address: string;
+    score: number;
+    run_id: string | null;
+    achieved_at: string;
+}
+
+interface CodeRow {
+    code: string;
+    amount_lamports: number;
+    max_uses: number;
+    uses: number;
+    expires_at: string | null;
+    batch_id: string | null;
+    created_at: string | null;
+}
+
+interface ChatRow {
+    id: string;
+    author: string;
+    address: string | null;
+    room: string;
+    text: string;
+    timestamp: string;
+}
+
+interface SanctionRow {
+    address: string;
+    kind: ChatSanction['kind'];
+    until: string | null;
+    reason: string | null;
+    created_at: string;
+}
+
+interface RewardScheduleRow {
+    version: number;
+    activated_at: string;
+    schedule: string;
+}
+
+interface DailyDayRow {
+    day: string;
+    seed: number;
+    difficulty: string;
+    settled_at: string | null;
+    payouts: string;
+}
+
+const toLedgerEntry = (row: LedgerRow): LedgerEntry => ({ ...row, meta: row.meta ? JSON.parse(row.meta) : null });
+const toScoreEntry = (row: ScoreRow): ScoreEntry => ({ user: row.address, score: row.score, runId: row.run_id, timestamp: row.achieved_at });
+const toCode = (row: CodeRow): RedemptionCode => ({
+    code: row.code,
+    amountLamports: row.amount_lamports,
+    maxUses: row.max_uses,
+    uses: row.uses,
+    expiresAt: row.expires_at,
+    batchId: row.batch_id,
+    createdAt: row.created_at,
+});
+const toChatMessage = (row: ChatRow): ChatMessage => ({
+    id: row.id,
+    user: row.author,
+    address: row.address,
+    room: row.room,
+    text: row.text,
+    timestamp: row.timestamp,
+});
+const toSanction = (row: SanctionRow): ChatSanction => ({
+    address: row.address,
+    kind: row.kind,
+    until: row.until,
+    reason: row.reason,
+    createdAt: row.created_at,
+});
+const toDailyDay = (row: DailyDayRow): DailyDay => ({
+    day: row.day,
+    seed: row.seed,
+    difficulty: row.difficulty,
+    settledAt: row.settled_at,
+    payouts: JSON.parse(row.payouts),
+});
+const toRewardScheduleVersion = (row: RewardScheduleRow): RewardScheduleVersion => ({
+    version: row.version,
+    activatedAt: row.activated_at,
+    schedule: JSON.parse(row.schedule),
+});
+const isFlagged = (run: RunRecord) => run.status === 'rejected' || Boolean(run.behavior && run.behavior.verdict === 'held');
+
+/**
+ * Opens (creating if needed) and migrates the database at filePath
+ */
+export function openSqliteRepository(filePath: string): Repository {
+    const db = new BetterSqlite3(filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    migrate(db);
+
+    const ledger = {
+        append: db.prepare('INSERT INTO ledger_entries (id, address, kind, source, lamports, meta, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?)'),
+        totals: db.prepare(`
+            SELECT
+                COALESCE(SUM(CASE WHEN kind = 'credit' THEN lamports END), 0) AS creditedLamports,
+                COALESCE(SUM(CASE WHEN kind = 'debit' THEN lamports END), 0) AS debitedLamports
+            FROM ledger_entries WHERE address = ?
+        `),
+        first: db.prepare('SELECT * FROM ledger_entries WHERE address = ? ORDER BY seq LIMIT 1'),
+        last: db.prepare('SELECT * FROM ledger_entries WHERE address = ? AND source = ? ORDER BY seq DESC LIMIT 1'),
+        bySource: db.prepare('SELECT * FROM ledger_entries WHERE address = ? AND source = ? ORDER BY seq'),
+    };
+
+    const payouts = {
+        insert: db.prepare('INSERT INTO payouts (id, address, status, created_at, data) VALUES (?, ?, ?, ?, ?)'),
+        update: db.prepare('UPDATE payouts SET status = ?, data = ? WHERE id = ?'),
+        get: db.prepare('SELECT data FROM payouts WHERE id = ?'),
+        // One statement per combination of filters, prepared on first use
+        lists: new Map<string, BetterSqlite3.Statement>(),
+    };
+
+    const scores = {
+        get: db.prepare('SELECT * FROM leaderboard_scores WHERE board = ? AND period = ? AND address = ?'),
+        put: db.prepare(`
+            INSERT OR REPLACE INTO leaderboard_scores (board, period, address, score, run_id, achieved_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `),
+        page: db.prepare(`
+            SELECT * FROM leaderboard_scores WHERE board = ? AND period = ?
+            ORDER BY score DESC, achieved_at LIMIT ? OFFSET ?
+        `),
+        count: db.prepare('SELECT COUNT(*) AS count FROM leaderboard_scores WHERE board = ? AND period = ?'),
+        ahead: db.prepare(`
+            SELECT COUNT(*) AS count FROM leaderboard_scores
+            WHERE board = ? AND period = ? AND (score > ? OR (score = ? AND achieved_at < ?))
+        `),
+    };
+
+    const codes = {
+        insert: db.prepare(`
+            INSERT OR IGNORE INTO redemption_codes (code, amount_lamports, max_uses, uses, expires_at, batch_id, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `),
+        get: db.prepare('SELECT * FROM redemption_codes WHERE code = ?'),
+        all: db.prepare('SELECT * FROM redemption_codes ORDER BY rowid'),
+        byBatch: db.prepare('SELECT * FROM redemption_codes WHERE batch_id = ? ORDER BY rowid'),
+        redeemedBy: db.prepare('SELECT 1 FROM code_redemptions WHERE code = ? AND address = ?'),
+        // The WHERE clause makes the check and the write one step, so a code cannot be over-used
+        use: db.prepare('UPDATE redemption_codes SET uses = uses + 1 WHERE code = ? AND uses < max_uses'),
+        record: db.prepare('INSERT INTO code_redemptions (code, address, redeemed_at) VALUES (?, ?, ?)'),
+    };
+
+    const chat = {
+        append: db.prepare('INSERT INTO chat_messages (id, author, address, room, text, timestamp) VALUES (?, ?, ?, ?, ?, ?)'),
+        recent: db.prepare('SELECT * FROM (SELECT * FROM chat_messages WHERE room = ? ORDER BY seq DESC LIMIT ?) ORDER BY seq'),
+        get: db.prepare('SELECT * FROM chat_messages WHERE id = ?'),
+        remove: db.prepare('DELETE FROM chat_messages WHERE id = ?'),
+        directRooms: db.prepare(`
+            SELECT DISTINCT room FROM chat_messages
+            WHERE room LIKE 'dm:' || @address || ':%' OR room LIKE 'dm:%:' || @address
+        `),
+        markRead: db.prepare('INSERT OR REPLACE INTO chat_reads (address, room, read_at) VALUES (?, ?, ?)'),
+        // Counts inside a LIMITed subquery so a long-unread room does not scan its whole history
+        unreadCount: db.prepare(`
+            SELECT COUNT(*) AS count FROM (
+                SELECT 1 FROM chat_messages
+                WHERE room = @room
+                  AND (address IS NULL OR address != @address)
+                  AND timestamp > COALESCE((SELECT read_at FROM chat_reads WHERE address = @address AND room = @room), '')
+                ORDER BY seq DESC
+                LIMIT @limit
+            )
+        `),
+        getSanction: db.prepare('SELECT * FROM chat_sanctions WHERE address = ?'),
+        putSanction: db.prepare(`
+            INSERT OR REPLACE INTO chat_sanctions (address, kind, until, reason, created_at)
+            VALUES (?, ?, ?, ?, ?)
+        `),
+        clearSanction: db.prepare('DELETE FROM chat_sanctions WHERE address = ?'),
+    };
+
+    const runs = {
+        insert: db.prepare('INSERT INTO runs (id, address, status, distance, flagged, data) VALUES (?, ?, ?, ?, ?, ?)'),
+        update: db.prepare('UPDATE runs SET status = ?, distance = ?, flagged = ?, data = ? WHERE id = ?'),
+        get: db.prepare('SELECT data FROM runs WHERE id = ?'),
+        flagged: db.prepare('SELECT data FROM runs WHERE flagged = 1 ORDER BY seq DESC'),
+        verified: db.prepare("SELECT data FROM runs WHERE address = ? AND status = 'verified' ORDER BY distance DESC, seq"),
+    };
+
+    const daily = {
+        get: db.prepare('SELECT * FROM daily_days WHERE day = ?'),
+        put: db.prepare('INSERT OR REPLACE INTO daily_days (day, seed, difficulty, settled_at, payouts) VALUES (?, ?, ?, ?, ?)'),
+        unsettledBefore: db.prepare('SELECT * FROM daily_days WHERE day < ? AND settled_at IS NULL ORDER BY day'),
+        getSecret: db.prepare("SELECT value FROM settings WHERE key = 'daily_seed_secret'"),
+        setSecret: db.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES ('daily_seed_secret', ?)"),
+    };
+
+    const rewardSchedules = {
+        get: db.prepare('SELECT * FROM reward_schedules WHERE version = ?'),
+        insert: db.prepare('INSERT INTO reward_schedules (version, activated_at, schedule) VALUES (?, ?, ?)'),
+        all: db.prepare('SELECT * FROM reward_schedules ORDER BY activated_at, version'),
+    };
+
+    return {
+        ledger: {
+            append: (e) => {
+                ledger.append.run(e.id, e.address, e.kind, e.source, e.lamports, e.meta ? JSON.stringify(e.meta) : null, e.timestamp);
+            },
+            totals: (address) => ledger.totals.get(address) as { creditedLamports: number; debitedLamports: number },
+            first: (address) => {
+                const row = ledger.first.get(address) as LedgerRow | undefined;
+                return row ? toLedgerEntry(row) : null;
+            },
+            last: (address, source) => {
+                const row = ledger.last.get(address, source) as LedgerRow | undefined;
+                return row ? toLedgerEntry(row) : null;
+            },
+            bySource: (address, source) => (ledger.bySource.all(address, source) as LedgerRow[]).map(toLedgerEntry),
+        },
+
+        payouts: {
+            insert: (p) => { payouts.insert.run(p.id, p.address, p.status, p.createdAt, JSON.stringify(p)); },
+            update: (p) => { payouts.update.run(p.status, JSON.stringify(p), p.id); },
+            get: (id) => {
+                const row = payouts.get.get(id) as { data: string } | undefined;
+                return row ? JSON.parse(row.data) as Payout : null;
+            },
+            list: (filter = {}) => {
+                const clauses: string[] = [];
+                const params: Record<string, string> = {};
+                if (filter.address) {
+                    clauses.push('address = @address');
+                    params.address = filter.address;
+                }
+                if (filter.statuses) {
+                    clauses.push('status IN (SELECT value FROM json_each(@statuses))');
+                    params.statuses = JSON.stringify(filter.statuses);
+                }
+                if (filter.since) {
+                    clauses.push('created_at >= @since');
+                    params.since = filter.since;
+                }
+                const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+                let statement = payouts.lists.get(where);
+                if (!statement) {
+                    statement = db.prepare(`SELECT data FROM payouts ${where} ORDER BY seq`);
+                    payouts.lists.set(where, statement);
+                }
+                return (statement.all(params) as { data: string }[]).map(row => JSON.parse(row.data) as Payout);
+            },
+        },
+
+        leaderboard: {
+            get: (board, period, address) => {
+                const row = scores.get.get(board, period, address) as ScoreRow | undefined;
+                return row ? toScoreEntry(row) : null;
+            },
+            put: (board, period, e) => { scores.put.run(board, period, e.user, e.score, e.runId, e.timestamp); },
+            page: (board, period, offset, limit) => (scores.page.all(board, period, limit, offset) as ScoreRow[]).map(toScoreEntry),
+            count: (board, period) => (scores.count.get(board, period) as { count: number }).count,
+            rank: (board, period, address) => {
+                const row = scores.get.get(board, period, address) as ScoreRow | undefined;
+                if (!row) return null;
+                const { count } = scores.ahead.get(board, period, row.score, row.score, row.achieved_at) as { count: number };
+                return count + 1;
+            },
+        },
+
+        codes: {
+            insert: (list) => {
+                db.transaction(() => {
+                    for (const c of list) {
+                        codes.insert.run(c.code, c.amountLamports, c.maxUses, c.uses, c.expiresAt, c.batchId, c.createdAt);
+                    }
+                })();
+            },
+            get: (code) => {
+                const row = codes.get.get(code) as CodeRow | undefined;
+                return row ? toCode(row) : null;
+            },
+            list: (filter = {}) => {
+                const rows = (filter.batchId ? codes.byBatch.all(filter.batchId) : codes.all.all()) as CodeRow[];
+                return rows.map(toCode);
+            },
+            redeem: (code, address, at) => db.transaction((): RedeemOutcome => {
+                const row = codes.get.get(code) as CodeRow | undefined;
+                if (!row) return 'not_found';
+                if (row.expires_at && row.expires_at <= at) return 'expired';
+                if (codes.redeemedBy.get(code, address)) return 'already_redeemed';
+                if (codes.use.run(code).changes !== 1) return 'used_up';
+                codes.record.run(code, address, at);
+                return 'redeemed';
+            })(),
+        },
+
+        chat: {
+            append: (m) => { chat.append.run(m.id, m.user, m.address, m.room, m.text, m.timestamp); },
+            recent: (room, limit) => (chat.recent.all(room, limit) as ChatRow[]).map(toChatMessage),
+            remove: (id) => db.transaction(() => {
+                const row = chat.get.get(id) as ChatRow | undefined;
+                if (!row) return null;
+                chat.remove.run(id);
+                return toChatMessage(row);
+            })(),
+            directRooms: (address) => (chat.directRooms.all({ address }) as { room: string }[]).map(row => row.room),
+            markRead: (address, room, at) => { chat.markRead.run(address, room, at); },
+            unreadCount: (address, room, limit) => (chat.unreadCount.get({ address, room, limit }) as { count: number }).count,
+            getSanction: (address) => {
+                const row = chat.getSanction.get(address) as SanctionRow | undefined;
+                return row ? toSanction(row) : null;
+            },
+            putSanction: (s) => { chat.putSanction.run(s.address, s.kind, s.until, s.reason, s.createdAt); },
+            clearSanction: (address) => chat.clearSanction.run(address).changes === 1,
+        },
+
+        runs: {
+            insert: (r) => { runs.insert.run(r.id, r.address, r.status, r.distance, isFlagged(r) ? 1 : 0, JSON.stringify(r)); },
+            update: (r) => { runs.update.run(r.status, r.distance, isFlagged(r) ? 1 : 0, JSON.stringify(r), r.id); },
+            get: (id) => {
+                const row = runs.get.get(id) as { data: string } | undefined;
+                return row ? JSON.parse(row.data) as RunRecord : null;
+            },
+            flagged: () => (runs.flagged.all() as { data: string }[]).map(row => JSON.parse(row.data) as RunRecord),
+            verified: (address) => (runs.verified.all(address) as { data: string }[]).map(row => JSON.parse(row.data) as RunRecord),
+        },
+
+        daily: {
+            getDay: (day) => {
+                const row = daily.get.get(day) as DailyDayRow | undefined;
+                return row ? toDailyDay(row) : null;
+            },
+            putDay: (d) => { daily.put.run(d.day, d.seed, d.difficulty, d.settledAt, JSON.stringify(d.payouts)); },
+            unsettledBefore: (day) => (daily.unsettledBefore.all(day) as DailyDayRow[]).map(toDailyDay),
+            getSecret: () => {
+                const row = daily.getSecret.get() as { value: string } | undefined;
+                return row ? row.value : null;
+            },
+            setSecret: (secret) => { daily.setSecret.run(secret); },
+        },
+
+        rewardSchedules: {
+            get: (version) => {
+                const row = rewardSchedules.get.get(version) as RewardScheduleRow | undefined;
+                return row ? toRewardScheduleVersion(row) : null;
+            },
+            insert: (e) => { rewardSchedules.insert.run(e.version, e.activatedAt, JSON.stringify(e.schedule)); },
+            list: () => (rewardSchedules.all.all() as RewardScheduleRow[]).map(toRewardScheduleVersion),
+        },
+
+        transaction: (fn) => db.transaction(fn)(),
+        close: () => db.close(),
+    };
+}
@@ -0,0 +1,45 @@
+/**
+ * JSON File Persistence
+ * Small helpers for the server's on-disk JSON documents
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Resolves a data file relative to the server directory
+ */
+export function dataPath(fileName) {
+    return path.join(__dirname, fileName);
+}
+
+/**
+ * Loads a JSON document, falling back when it is missing or unreadable
+ */
+export function loadJson(filePath, fallback) {
+    if (!fs.existsSync(filePath)) return fallback;
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        console.error(`Failed to load ${path.basename(filePath)}`, e);
+        return fallback;
+    }
+}
+
+/**
+ * Writes a JSON document back to disk
+ * Writes to a temp file first so a crash never leaves a half-written document
+ */
+export function saveJson(filePath, data) {
+    try {
+        const tmpPath = `${filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tmpPath, filePath);
+    } catch (e) {
+        console.error(`Failed to save ${path.basename(filePath)}`, e);
+    }
+}
@@ -0,0 +1,69 @@
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRepository, getRepository } from '../storage/index.ts';
+import { createMemoryRepository } from '../storage/memory.ts';
+import { openSqliteRepository } from '../storage/sqlite.ts';
+import { generateCodes, redeemCode, CodeError } from '../codes.js';
+import { getBalanceLamports, solToLamports } from '../ledger.js';
+
+const REPOSITORIES = {
+    memory: () => createMemoryRepository(),
+    sqlite: () => openSqliteRepository(':memory:'),
+};
+
+const rejectsWith = (status, message) => (error) =>
+    error instanceof CodeError && error.status === status && (!message || message.test(error.message));
+
+for (const [name, open] of Object.entries(REPOSITORIES)) {
+    describe(`${name} repository`, () => {
+        beforeEach(() => {
+            setRepository(open());
+        });
+
+        test('a code credits its amount once per address', () => {
+            const { codes: [code] } = generateCodes({ count: 1, amountSOL: 0.5, maxUses: 2 });
+
+            assert.equal(redeemCode('alice', code.code), 0.5);
+            assert.equal(getBalanceLamports('alice'), solToLamports(0.5));
+            assert.throws(() => redeemCode('alice', code.code), rejectsWith(409, /already redeemed/));
+            assert.equal(getBalanceLamports('alice'), solToLamports(0.5));
+        });
+
+        test('a code stops paying once its uses are spent', () => {
+            const { codes: [code] } = generateCodes({ count: 1, amountSOL: 0.1, maxUses: 2 });
+
+            redeemCode('alice', code.code);
+            redeemCode('bob', code.code.toLowerCase().replace(/-/g, ''));
+            assert.throws(() => redeemCode('carol', code.code), rejectsWith(409, /fully redeemed/));
+
+            assert.equal(getRepository().codes.get(code.code).uses, 2);
+            assert.equal(getBalanceLamports('carol'), 0);
+        });
+
+        test('expired and unknown codes are refused', () => {
+            const { codes: [code] } = generateCodes({ count: 1, amountSOL: 0.1, expiresAt: new Date(Date.now() + 60000).toISOString() });
+            const stored = getRepository().codes.get(code.code);
+            getRepository().codes.insert([{ ...stored, code: 'PENGU-2026-0000-0000', expiresAt: new Date(Date.now() - 1000).toISOString() }]);
+
+            assert.throws(() => redeemCode('alice', 'PENGU-2026-0000-0000'), rejectsWith(409, /expired/));
+            assert.throws(() => redeemCode('alice', 'PENGU-2026-ZZZZ-ZZZZ'), rejectsWith(400));
+            assert.throws(() => redeemCode('alice', ''), rejectsWith(400, /Missing/));
+            assert.equal(getBalanceLamports('alice'), 0);
+        });
+    });
+}
+
+test('a failed credit leaves the code use unspent (sqlite)', () => {
+    const repository = openSqliteRepository(':memory:');
+    setRepository(repository);
+    const { codes: [code] } = generateCodes({ count: 1, amountSOL: 0.1, maxUses: 1 });
+
+    const append = repository.ledger.append;
+    repository.ledger.append = () => { throw new Error('disk full'); };
+    assert.throws(() => redeemCode('alice', code.code), /disk full/);
+    repository.ledger.append = append;
+
+    assert.equal(repository.codes.get(code.code).uses, 0);
+    assert.equal(redeemCode('alice', code.code), 0.1);
+    assert.equal(repository.codes.get(code.code).uses, 1);
+});
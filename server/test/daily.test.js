@@ -0,0 +1,103 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRepository, getRepository } from '../storage/index.ts';
+import { createMemoryRepository } from '../storage/memory.ts';
+import { getDailyChallenge, getDailyBoard, recordDailyScore, settleFinishedDays, utcDay } from '../daily.js';
+import { getRewardSchedule } from '../rewards.js';
+import { getBalanceLamports, solToLamports } from '../ledger.js';
+import { splitDailyPool } from '../../shared/rewards.ts';
+
+const DAY = '2026-01-01';
+
+beforeEach(() => {
+    setRepository(createMemoryRepository());
+});
+
+const schedule = (totalSOL, shares) => ({ ...getRewardSchedule(), dailyPool: { totalSOL, shares } });
+
+// A score on a past day's board, as recordDailyScore left it while the day was open
+const putScore = (address, score) =>
+    getRepository().leaderboard.put('dailyrun', DAY, { user: address, score, runId: `run-${address}`, timestamp: `${DAY}T12:00:00.000Z` });
+
+const assertClose = (actual, expected) => {
+    assert.equal(actual.length, expected.length);
+    actual.forEach((value, i) => assert.ok(Math.abs(value - expected[i]) < 1e-12, `${value} != ${expected[i]}`));
+};
+
+test('the daily pool is split by share among the places taken', () => {
+    assertClose(splitDailyPool(schedule(1, [50, 30, 20]), 3), [0.5, 0.3, 0.2]);
+    // Untaken places are dropped and their share goes to the rest
+    assertClose(splitDailyPool(schedule(1, [50, 30, 20]), 2), [0.625, 0.375]);
+    assertClose(splitDailyPool(schedule(1, [50, 30, 20]), 10), [0.5, 0.3, 0.2]);
+    assert.deepEqual(splitDailyPool(schedule(1, [50, 30, 20]), 0), []);
+    assert.deepEqual(splitDailyPool(schedule(1, [0, 0]), 2), [0, 0]);
+});
+
+test('the split never pays out more than the pool', () => {
+    const { dailyPool } = getRewardSchedule();
+    for (let finishers = 0; finishers <= dailyPool.shares.length + 2; finishers++) {
+        const total = splitDailyPool(getRewardSchedule(), finishers).reduce((sum, sol) => sum + sol, 0);
+        assert.ok(total <= dailyPool.totalSOL + 1e-12);
+        if (finishers > 0) assert.ok(Math.abs(total - dailyPool.totalSOL) < 1e-12);
+    }
+});
+
+test('a finished day is settled once, crediting its top finishers', () => {
+    getRepository().daily.putDay({ day: DAY, seed: 1, difficulty: 'medium', settledAt: null, payouts: [] });
+    putScore('alice', 300);
+    putScore('bob', 500);
+
+    assert.deepEqual(settleFinishedDays(), [DAY]);
+
+    const [first, second] = splitDailyPool(getRewardSchedule(), 2);
+    assert.equal(getBalanceLamports('bob'), solToLamports(first));
+    assert.equal(getBalanceLamports('alice'), solToLamports(second));
+    const record = getRepository().daily.getDay(DAY);
+    assert.ok(record.settledAt);
+    assert.deepEqual(record.payouts.map(p => [p.address, p.rank, p.distance]), [['bob', 1, 500], ['alice', 2, 300]]);
+
+    // Settled days take no more scores and are not settled again
+    assert.equal(recordDailyScore('carol', 900, 'run-d', DAY), false);
+    assert.equal(getRepository().leaderboard.get('dailyrun', DAY, 'carol'), null);
+    assert.deepEqual(settleFinishedDays(), []);
+    assert.ok(getDailyBoard(DAY).settled);
+});
+
+test('settling a day again after a crash does not pay twice', () => {
+    getRepository().daily.putDay({ day: DAY, seed: 1, difficulty: 'medium', settledAt: null, payouts: [] });
+    putScore('alice', 300);
+    settleFinishedDays();
+    const paid = getBalanceLamports('alice');
+
+    // As if the server died after crediting but before the day was marked settled
+    getRepository().daily.putDay({ ...getRepository().daily.getDay(DAY), settledAt: null });
+    assert.deepEqual(settleFinishedDays(), [DAY]);
+    assert.equal(getBalanceLamports('alice'), paid);
+});
+
+test('today is not settled, and every daily run today gets the same course', () => {
+    const challenge = getDailyChallenge();
+    assert.equal(challenge.day, utcDay());
+    assert.deepEqual(getDailyChallenge(), challenge);
+    assert.deepEqual(settleFinishedDays(), []);
+    assert.equal(getDailyBoard().settled, false);
+});
+
+test('a day\'s board keeps each address\'s best and does not show which run set it', () => {
+    const { day } = getDailyChallenge();
+    assert.ok(recordDailyScore('alice', 300, 'run-a', day));
+    assert.ok(recordDailyScore('alice', 400, 'run-b', day));
+    assert.equal(recordDailyScore('alice', 100, 'run-c', day), false);
+
+    const { entries } = getDailyBoard(day);
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].score, 400);
+    assert.equal('runId' in entries[0], false);
+});
+
+test('a run finished after its day ended does not score, even before the day is settled', () => {
+    getRepository().daily.putDay({ day: DAY, seed: 1, difficulty: 'medium', settledAt: null, payouts: [] });
+
+    assert.equal(recordDailyScore('alice', 300, 'run-a', DAY), false);
+    assert.deepEqual(getDailyBoard(DAY).entries, []);
+});
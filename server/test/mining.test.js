@@ -0,0 +1,42 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRepository } from '../storage/index.ts';
+import { createMemoryRepository } from '../storage/memory.ts';
+import { getMiningChallenge, isMiningShare } from '../mining.js';
+import { credit } from '../ledger.js';
+import { isShare } from '../../shared/mining.ts';
+
+const ADDRESS = 'miner-address';
+
+beforeEach(() => {
+    setRepository(createMemoryRepository());
+});
+
+// What a hash worker does: try nonces until one is a share
+const findShare = (challenge) => {
+    let nonce = 0;
+    while (!isShare(challenge, nonce)) nonce++;
+    return nonce;
+};
+
+test('a claim needs a share under the address\'s own challenge', () => {
+    const nonce = findShare(getMiningChallenge(ADDRESS));
+
+    assert.ok(isMiningShare(ADDRESS, nonce));
+    assert.notEqual(getMiningChallenge('someone-else'), getMiningChallenge(ADDRESS));
+    for (const invalid of [undefined, 'abc', -1, 1.5, 2 ** 32 + nonce]) {
+        assert.equal(isMiningShare(ADDRESS, invalid), false);
+    }
+});
+
+test('every tab mining credit moves the address on to a new challenge', () => {
+    const challenge = getMiningChallenge(ADDRESS);
+    const nonce = findShare(challenge);
+    assert.equal(getMiningChallenge(ADDRESS), challenge);
+
+    credit(ADDRESS, 'tab_mining', 1000);
+
+    assert.notEqual(getMiningChallenge(ADDRESS), challenge);
+    // The spent share would only count again by the one-in-a-million chance of being a share anew
+    assert.equal(isMiningShare(ADDRESS, nonce), false);
+});
@@ -0,0 +1,148 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, LAMPORTS_PER_SOL, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { setRepository, getRepository } from '../storage/index.ts';
+import { createMemoryRepository } from '../storage/memory.ts';
+import { openSqliteRepository } from '../storage/sqlite.ts';
+import { initPayouts, requestPayout, approvePayout, rejectPayout, reconcilePayouts, PayoutActionError } from '../payouts.js';
+import { credit, getBalanceLamports } from '../ledger.js';
+
+const LAMPORTS = LAMPORTS_PER_SOL / 10;
+const treasuryKeypair = Keypair.generate();
+const recipient = Keypair.generate().publicKey.toBase58();
+
+// Stand-in for the Solana RPC connection; each test overrides the calls it is about
+const createConnection = (overrides = {}) => ({
+    getBalance: async () => 10 * LAMPORTS_PER_SOL,
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+    sendRawTransaction: async () => 'signature',
+    confirmTransaction: async () => ({ value: { err: null } }),
+    getSignatureStatuses: async (signatures) => ({ value: signatures.map(() => ({ confirmationStatus: 'finalized', err: null })) }),
+    getBlockHeight: async () => 50,
+    ...overrides,
+});
+
+const useConnection = (overrides) => initPayouts({ connection: createConnection(overrides), treasuryKeypair });
+
+// Credits the recipient, then withdraws it all as POST /api/withdraw does
+const withdraw = (holdReason = null) => {
+    credit(recipient, 'tab_mining', LAMPORTS);
+    return requestPayout(recipient, LAMPORTS, holdReason);
+};
+
+const settled = (id, statuses) => new Promise((resolve, reject) => {
+    const started = Date.now();
+    const poll = () => {
+        const payout = getRepository().payouts.get(id);
+        if (statuses.includes(payout.status)) return resolve(payout);
+        if (Date.now() - started > 5000) return reject(new Error(`Payout stuck in ${payout.status}`));
+        setTimeout(poll, 5);
+    };
+    poll();
+});
+
+const statusesOf = (payout) => payout.history.map(h => h.status);
+
+beforeEach(() => {
+    setRepository(createMemoryRepository());
+});
+
+test('a payout is signed, broadcast and confirmed, then finalized by reconciliation', async () => {
+    useConnection();
+    const { id } = withdraw();
+
+    const confirmed = await settled(id, ['confirmed']);
+    assert.deepEqual(statusesOf(confirmed), ['requested', 'signed', 'broadcast', 'confirmed']);
+    assert.equal(confirmed.attempts, 1);
+    assert.ok(confirmed.signature);
+
+    await reconcilePayouts();
+    assert.equal(getRepository().payouts.get(id).status, 'finalized');
+    assert.equal(getBalanceLamports(recipient), 0);
+});
+
+test('a payout the treasury cannot cover fails and is refunded', async () => {
+    useConnection({ getBalance: async () => 0 });
+    const { id } = withdraw();
+
+    const failed = await settled(id, ['failed']);
+    assert.equal(failed.error, 'Insufficient treasury balance');
+    assert.equal(getBalanceLamports(recipient), LAMPORTS);
+});
+
+test('a transaction that fails on chain is refunded', async () => {
+    useConnection({ confirmTransaction: async () => ({ value: { err: { InstructionError: [0, 'Custom'] } } }) });
+    const { id } = withdraw();
+
+    const failed = await settled(id, ['failed']);
+    assert.match(failed.error, /^Transaction failed/);
+    assert.equal(getBalanceLamports(recipient), LAMPORTS);
+});
+
+test('an expired transaction is re-signed until it runs out of attempts, then refunded', async () => {
+    useConnection({
+        confirmTransaction: async ({ signature }) => { throw new TransactionExpiredBlockheightExceededError(signature); },
+    });
+    const { id } = withdraw();
+
+    const expired = await settled(id, ['expired']);
+    assert.equal(expired.attempts, 3);
+    assert.match(expired.error, /after 3 attempts/);
+    assert.deepEqual(statusesOf(expired), [
+        'requested',
+        'signed', 'broadcast', 'expired', 'requested',
+        'signed', 'broadcast', 'expired', 'requested',
+        'signed', 'broadcast', 'expired',
+    ]);
+    assert.equal(getBalanceLamports(recipient), LAMPORTS);
+});
+
+test('an RPC error leaves the payout where it was, unrefunded, for the next reconcile', async () => {
+    let sends = 0;
+    useConnection({ sendRawTransaction: async () => { sends++; throw new Error('RPC unavailable'); } });
+    const { id } = withdraw();
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const stalled = getRepository().payouts.get(id);
+    assert.equal(stalled.status, 'signed');
+    assert.equal(stalled.error, 'RPC unavailable');
+    assert.equal(sends, 1);
+    assert.equal(getBalanceLamports(recipient), 0);
+});
+
+test('a held payout waits for approval, then goes through', async () => {
+    useConnection();
+    const { id } = withdraw('Over the daily limit');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(getRepository().payouts.get(id).status, 'held');
+
+    approvePayout(id);
+    const confirmed = await settled(id, ['confirmed']);
+    assert.deepEqual(statusesOf(confirmed), ['held', 'requested', 'signed', 'broadcast', 'confirmed']);
+    assert.throws(() => approvePayout(id), PayoutActionError);
+});
+
+test('a rejected held payout fails and is refunded', () => {
+    useConnection();
+    const { id } = withdraw('Over the daily limit');
+
+    const rejected = rejectPayout(id, 'Looks like a farm');
+    assert.equal(rejected.status, 'failed');
+    assert.equal(rejected.error, 'Looks like a farm');
+    assert.equal(getBalanceLamports(recipient), LAMPORTS);
+    assert.throws(() => rejectPayout(id), PayoutActionError);
+    assert.throws(() => approvePayout('missing'), PayoutActionError);
+});
+
+test('a payout that cannot be queued leaves the ledger undebited (sqlite)', () => {
+    const repository = openSqliteRepository(':memory:');
+    setRepository(repository);
+    useConnection();
+    credit(recipient, 'tab_mining', LAMPORTS);
+
+    repository.payouts.insert = () => { throw new Error('disk full'); };
+    assert.throws(() => requestPayout(recipient, LAMPORTS), /disk full/);
+
+    assert.equal(getBalanceLamports(recipient), LAMPORTS);
+    assert.deepEqual(repository.payouts.list({ address: recipient }), []);
+});
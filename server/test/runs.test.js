@@ -0,0 +1,265 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setRepository, getRepository } from '../storage/index.ts';
+import { createMemoryRepository } from '../storage/memory.ts';
+import { openSqliteRepository } from '../storage/sqlite.ts';
+import { startRun, finishRun, releaseRun, creditRunRewards, RunError } from '../runs.js';
+import { getBalanceLamports, solToLamports } from '../ledger.js';
+import { REDUCED_REWARD_FACTOR } from '../behavior.js';
+import { getDailyChallenge } from '../daily.js';
+import { replayRun } from '../../shared/runner/replay.ts';
+import { getDistance, TICK_MS, ENGINE_VERSION } from '../../shared/runner/engine.ts';
+import { DEFAULT_REWARD_SCHEDULE, getMilestoneReward, getTokenReward } from '../../shared/rewards.ts';
+
+const ADDRESS = 'runner-address';
+
+beforeEach(() => {
+    setRepository(createMemoryRepository());
+});
+
+// A run started long enough ago to have played `ticks` ticks, on a seed whose no-jump run
+// picks up a token, so it always has something to credit
+const startPlayedRun = (ticks, difficulty = 'easy') => {
+    const run = startRun(ADDRESS, difficulty);
+    run.seed = 1;
+    run.startedAt -= ticks * TICK_MS;
+    return run;
+};
+
+// The honest log of a run that never jumps: it plays until the first obstacle ends it
+const honestLog = (run) => {
+    const state = replayRun(run.seed, run.difficulty, { ticks: 60 * 60 * 60, jumps: [] });
+    return { ticks: state.tick, jumps: [], distance: getDistance(state.score) };
+};
+
+test('a run whose replay reaches the claimed distance is verified, stored and paid', async () => {
+    const run = startPlayedRun(60 * 60);
+    const log = honestLog(run);
+
+    const { run: record, award } = await finishRun(ADDRESS, run.id, log);
+
+    assert.equal(record.status, 'verified');
+    assert.equal(record.reason, null);
+    assert.equal(record.distance, log.distance);
+    assert.equal(record.milestones, Math.floor(log.distance / 100));
+    assert.deepEqual(getRepository().runs.get(run.id).status, 'verified');
+    assert.ok(award.rewardSOL > 0);
+    assert.equal(getBalanceLamports(ADDRESS), solToLamports(award.rewardSOL));
+    assert.deepEqual(award.leaderboards, ['daily', 'weekly', 'alltime']);
+    assert.equal(award.daily, false);
+});
+
+test('a run claiming more than its replay reached is rejected', async () => {
+    const run = startPlayedRun(60 * 60);
+    const log = honestLog(run);
+
+    const { run: record } = await finishRun(ADDRESS, run.id, { ...log, distance: log.distance + 500 });
+
+    assert.equal(record.status, 'rejected');
+    assert.match(record.reason, /^Replay reached/);
+    // The replayed distance is kept for review
+    assert.equal(record.distance, log.distance);
+    assert.equal(record.claimedDistance, log.distance + 500);
+    assert.deepEqual(getRepository().runs.flagged().map(r => r.id), [run.id]);
+    assert.equal(getBalanceLamports(ADDRESS), 0);
+});
+
+test('a run never credits more than the client claimed', async () => {
+    const run = startPlayedRun(60 * 60);
+    const log = honestLog(run);
+
+    const { run: record } = await finishRun(ADDRESS, run.id, { ...log, distance: 0 });
+
+    assert.equal(record.status, 'verified');
+    assert.equal(record.distance, 0);
+});
+
+test('a run with more ticks than the time since it started is rejected before replaying', async () => {
+    const run = startPlayedRun(60);
+
+    const { run: record } = await finishRun(ADDRESS, run.id, { ticks: 60 * 60, jumps: [], distance: 0 });
+
+    assert.equal(record.status, 'rejected');
+    assert.equal(record.reason, 'Run is longer than the time since it started');
+    assert.equal(record.ticks, null);
+});
+
+test('malformed logs are rejected', async () => {
+    const cases = [
+        [{ ticks: -1, jumps: [], distance: 0 }, 'Invalid tick count'],
+        [{ ticks: 1.5, jumps: [], distance: 0 }, 'Invalid tick count'],
+        [{ ticks: 10, jumps: [], distance: -1 }, 'Invalid distance'],
+        [{ ticks: 10, jumps: [5, 3], distance: 0 }, 'Invalid jump log'],
+        [{ ticks: 10, jumps: [10], distance: 0 }, 'Invalid jump log'],
+        [undefined, 'Invalid tick count'],
+    ];
+    for (const [log, reason] of cases) {
+        const run = startPlayedRun(60);
+        const { run: record } = await finishRun(ADDRESS, run.id, log);
+        assert.equal(record.status, 'rejected');
+        assert.equal(record.reason, reason);
+    }
+});
+
+test('a run can only be finished once, and only by the address that started it', async () => {
+    const run = startPlayedRun(60 * 60);
+    const log = honestLog(run);
+
+    await assert.rejects(finishRun('someone-else', run.id, log), (error) => error instanceof RunError && error.status === 404);
+    const other = startPlayedRun(60 * 60);
+    await finishRun(ADDRESS, other.id, honestLog(other));
+    await assert.rejects(finishRun(ADDRESS, other.id, honestLog(other)), RunError);
+});
+
+test('an unknown difficulty cannot be started', () => {
+    assert.throws(() => startRun(ADDRESS, 'impossible'), RunError);
+});
+
+test('starting a run past the cap on unfinished runs drops the oldest', async () => {
+    const runs = [1, 2, 3, 4].map(() => startPlayedRun(60 * 60));
+
+    await assert.rejects(finishRun(ADDRESS, runs[0].id, honestLog(runs[0])), (error) => error instanceof RunError && error.status === 404);
+    for (const run of runs.slice(1)) {
+        const { run: record } = await finishRun(ADDRESS, run.id, honestLog(run));
+        assert.equal(record.status, 'verified');
+    }
+});
+
+test('a daily log replayed on run after run only ever scores on the day\'s board', async () => {
+    const challenge = getDailyChallenge();
+    const first = startRun(ADDRESS, challenge.difficulty, challenge);
+    first.startedAt -= 60 * 60 * TICK_MS;
+    const log = honestLog(first);
+
+    for (let i = 0; i < 3; i++) {
+        const run = i === 0 ? first : startRun(ADDRESS, challenge.difficulty, challenge);
+        run.startedAt -= 60 * 60 * TICK_MS;
+        const { run: record, award } = await finishRun(ADDRESS, run.id, log);
+        assert.equal(record.status, 'verified');
+        assert.equal(award.rewardSOL, 0);
+        assert.equal(award.daily, i === 0);
+    }
+    assert.equal(getBalanceLamports(ADDRESS), 0);
+    assert.equal(getRepository().leaderboard.page('dailyrun', challenge.day, 0, 10).length, 1);
+});
+
+// A verified run paid under a schedule version stored for the test
+const paidRun = (schedule, changes = {}) => {
+    getRepository().rewardSchedules.insert({ version: schedule.version, activatedAt: new Date().toISOString(), schedule });
+    return {
+        id: 'paid-run',
+        address: ADDRESS,
+        difficulty: 'easy',
+        milestones: 3,
+        tokens: 4,
+        behavior: { score: 1, verdict: 'pass', reasons: [] },
+        scheduleVersion: schedule.version,
+        ...changes,
+    };
+};
+
+test('a run is credited its milestones and tokens from the schedule it finished under', () => {
+    const schedule = { ...DEFAULT_REWARD_SCHEDULE, version: 1001 };
+    const run = paidRun(schedule);
+
+    const milestones = [100, 200, 300].map(distance => getMilestoneReward(schedule, 'easy', distance));
+    const expected = milestones.reduce((sum, sol) => sum + sol, 0) + 4 * getTokenReward(schedule, 'easy');
+    assert.ok(Math.abs(creditRunRewards(run) - expected) < 1e-12);
+    assert.equal(getBalanceLamports(ADDRESS), milestones.reduce((sum, sol) => sum + solToLamports(sol), 0) + solToLamports(4 * getTokenReward(schedule, 'easy')));
+});
+
+test('rewards that come to 0 lamports are skipped instead of failing the credit', () => {
+    const free = {
+        ...DEFAULT_REWARD_SCHEDULE,
+        version: 1002,
+        runner: {
+            ...DEFAULT_REWARD_SCHEDULE.runner,
+            easy: { milestones: [0, 0.001, 0.0000000004], repeatingMilestone: 0, token: 0 },
+        },
+    };
+
+    assert.equal(creditRunRewards(paidRun(free, { milestones: 4 })), 0.001);
+    assert.equal(getBalanceLamports(ADDRESS), solToLamports(0.001));
+});
+
+test('a reduced run is paid at the reduced factor, skipping amounts that round to nothing', () => {
+    const tiny = {
+        ...DEFAULT_REWARD_SCHEDULE,
+        version: 1003,
+        runner: {
+            ...DEFAULT_REWARD_SCHEDULE.runner,
+            // 4 lamports, then 0.8 lamports that the factor takes under half a lamport
+            easy: { milestones: [0.000000004, 0.0000000008], repeatingMilestone: 0, token: 0.0000000008 },
+        },
+    };
+
+    const reduced = { score: 0.5, verdict: 'reduced', reasons: [] };
+    creditRunRewards(paidRun(tiny, { milestones: 2, tokens: 1, behavior: reduced }));
+    assert.equal(getBalanceLamports(ADDRESS), 4 * REDUCED_REWARD_FACTOR);
+});
+
+// A verified run the behaviour score held for review
+const heldRun = () => ({
+    id: 'held-run',
+    address: ADDRESS,
+    seed: 1,
+    difficulty: 'easy',
+    day: null,
+    startedAt: Date.now() - 60000,
+    finishedAt: Date.now(),
+    ticks: 510,
+    jumps: [],
+    claimedDistance: 88,
+    distance: 88,
+    tokens: 1,
+    milestones: 0,
+    status: 'verified',
+    reason: null,
+    behavior: { score: 0.2, verdict: 'held', reasons: ['Jump timing is too consistent'] },
+    scheduleVersion: DEFAULT_REWARD_SCHEDULE.version,
+    engineVersion: ENGINE_VERSION,
+});
+
+test('releasing a held run pays it once', () => {
+    getRepository().runs.insert(heldRun());
+
+    const { run, award } = releaseRun('held-run');
+
+    assert.equal(run.behavior.verdict, 'pass');
+    assert.ok(run.behavior.releasedAt);
+    assert.equal(getBalanceLamports(ADDRESS), solToLamports(award.rewardSOL));
+    assert.equal(getRepository().leaderboard.get('alltime', '', ADDRESS).score, 88);
+    assert.throws(() => releaseRun('held-run'), (error) => error instanceof RunError && error.status === 409);
+    assert.throws(() => releaseRun('missing'), (error) => error instanceof RunError && error.status === 404);
+});
+
+test('a release whose credit fails leaves the run held and unpaid (sqlite)', () => {
+    const repository = openSqliteRepository(':memory:');
+    setRepository(repository);
+    repository.runs.insert(heldRun());
+
+    const append = repository.ledger.append;
+    repository.ledger.append = () => { throw new Error('disk full'); };
+    assert.throws(() => releaseRun('held-run'), /disk full/);
+    repository.ledger.append = append;
+
+    assert.equal(repository.runs.get('held-run').behavior.verdict, 'held');
+    assert.equal(repository.leaderboard.get('alltime', '', ADDRESS), null);
+    assert.equal(getBalanceLamports(ADDRESS), 0);
+
+    const { award } = releaseRun('held-run');
+    assert.ok(award.rewardSOL > 0);
+    assert.equal(getBalanceLamports(ADDRESS), solToLamports(award.rewardSOL));
+});
+
+test('a finished run whose credit fails is neither stored nor scored (sqlite)', async () => {
+    const repository = openSqliteRepository(':memory:');
+    setRepository(repository);
+    const run = startPlayedRun(60 * 60);
+
+    repository.ledger.append = () => { throw new Error('disk full'); };
+    await assert.rejects(finishRun(ADDRESS, run.id, honestLog(run)), /disk full/);
+
+    assert.equal(repository.runs.get(run.id), null);
+    assert.equal(repository.leaderboard.get('alltime', '', ADDRESS), null);
+});
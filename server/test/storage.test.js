@@ -0,0 +1,67 @@
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryRepository } from '../storage/memory.ts';
+import { openSqliteRepository } from '../storage/sqlite.ts';
+import { DEFAULT_REWARD_SCHEDULE } from '../../shared/rewards.ts';
+
+const REPOSITORIES = {
+    memory: () => createMemoryRepository(),
+    sqlite: () => openSqliteRepository(':memory:'),
+};
+
+const payout = (id, address, status, createdAt) => ({
+    id,
+    address,
+    lamports: 1000,
+    debitId: `debit-${id}`,
+    status,
+    attempts: 0,
+    signature: null,
+    serializedTx: null,
+    blockhash: null,
+    lastValidBlockHeight: null,
+    error: null,
+    holdReason: null,
+    createdAt,
+    updatedAt: createdAt,
+    history: [{ status, at: createdAt }],
+});
+
+for (const [name, open] of Object.entries(REPOSITORIES)) {
+    describe(`${name} repository`, () => {
+        let repository;
+        beforeEach(() => {
+            repository = open();
+        });
+
+        test('payouts are listed oldest first, narrowed by address, status and creation time', () => {
+            repository.payouts.insert(payout('a', 'alice', 'finalized', '2026-01-01T10:00:00.000Z'));
+            repository.payouts.insert(payout('b', 'bob', 'requested', '2026-01-02T10:00:00.000Z'));
+            repository.payouts.insert(payout('c', 'alice', 'failed', '2026-01-03T10:00:00.000Z'));
+            repository.payouts.insert(payout('d', 'alice', 'requested', '2026-01-04T10:00:00.000Z'));
+            const ids = (filter) => repository.payouts.list(filter).map(p => p.id);
+
+            assert.deepEqual(ids(), ['a', 'b', 'c', 'd']);
+            assert.deepEqual(ids({ address: 'alice' }), ['a', 'c', 'd']);
+            assert.deepEqual(ids({ statuses: ['requested', 'failed'] }), ['b', 'c', 'd']);
+            assert.deepEqual(ids({ statuses: [] }), []);
+            assert.deepEqual(ids({ since: '2026-01-02T10:00:00.000Z' }), ['b', 'c', 'd']);
+            assert.deepEqual(ids({ address: 'alice', statuses: ['requested', 'finalized'], since: '2026-01-02T00:00:00.000Z' }), ['d']);
+
+            repository.payouts.update({ ...repository.payouts.get('b'), status: 'confirmed' });
+            assert.deepEqual(ids({ statuses: ['requested'] }), ['d']);
+        });
+
+        test('reward schedule versions are kept in the order they went live', () => {
+            // Far-off versions, since a new database imports any local reward-history.json
+            const older = { ...DEFAULT_REWARD_SCHEDULE, version: 1002 };
+            const newer = { ...DEFAULT_REWARD_SCHEDULE, version: 1001, redeemSOL: 0.05 };
+            repository.rewardSchedules.insert({ version: 1002, activatedAt: '2100-01-01T00:00:00.000Z', schedule: older });
+            repository.rewardSchedules.insert({ version: 1001, activatedAt: '2100-02-01T00:00:00.000Z', schedule: newer });
+
+            assert.deepEqual(repository.rewardSchedules.get(1001).schedule, newer);
+            assert.equal(repository.rewardSchedules.get(1003), null);
+            assert.deepEqual(repository.rewardSchedules.list().map(e => e.version).slice(-2), [1002, 1001]);
+        });
+    });
+}
@@ -0,0 +1,55 @@
+/**
+ * Chat Rooms
+ * Room ids shared by the chat server and LiveChat. Public rooms are a fixed list; a direct
+ * message conversation is the room dm:<address>:<address>, with the two wallets in sorted
+ * order so both sides name it the same way.
+ */
+
+import { CaptchaDifficulty } from '../types';
+
+export const CHAT_ROOMS = ['general', 'trading', CaptchaDifficulty.EASY, CaptchaDifficulty.MEDIUM, CaptchaDifficulty.HARD] as const;
+
+export type ChatRoom = typeof CHAT_ROOMS[number];
+
+export const DEFAULT_CHAT_ROOM: ChatRoom = 'general';
+
+export const CHAT_ROOM_LABELS: Record<ChatRoom, string> = {
+    general: 'General',
+    trading: 'Trading',
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+};
+
+const DM_PREFIX = 'dm:';
+
+// Base58 Solana address after an @
+const MENTION_PATTERN = /@([1-9A-HJ-NP-Za-km-z]{32,44})\b/g;
+
+export function isPublicRoom(room: unknown): room is ChatRoom {
+    return typeof room === 'string' && (CHAT_ROOMS as readonly string[]).includes(room);
+}
+
+export function directRoom(a: string, b: string): string {
+    return DM_PREFIX + [a, b].sort().join(':');
+}
+
+export function isDirectRoom(room: string): boolean {
+    return room.startsWith(DM_PREFIX);
+}
+
+/**
+ * The two wallets in a direct message room, or null for any other room
+ */
+export function directRoomMembers(room: string): [string, string] | null {
+    if (!isDirectRoom(room)) return null;
+    const members = room.slice(DM_PREFIX.length).split(':');
+    return members.length === 2 ? [members[0], members[1]] : null;
+}
+
+/**
+ * Addresses @mentioned in a message, without repeats
+ */
+export function findMentions(text: string): string[] {
+    return [...new Set([...text.matchAll(MENTION_PATTERN)].map(match => match[1]))];
+}
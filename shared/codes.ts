@@ -0,0 +1,64 @@
+/**
+ * Redemption Code Format
+ * Codes look like PENGU-2026-XXXX-XXXX: eight Crockford base32 characters (no I, L, O
+ * or U, so they survive being read aloud or copied by hand), the last of which is a Luhn
+ * mod 32 check character over the other seven. The check catches any single mistyped
+ * character and most swapped neighbours before the code is looked up.
+ *
+ * Codes issued before the check character existed are still honoured by the server; the
+ * check only decides how a code that does not exist is reported.
+ */
+
+export const CODE_PREFIX = 'PENGU-2026';
+export const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+// Random characters per code; one more is added as the check character
+export const CODE_BODY_LENGTH = 7;
+
+const CODE_PATTERN = /^PENGU-2026-[0-9A-Z]{4}-[0-9A-Z]{4}$/;
+
+/**
+ * Upper-cases and trims pasted input, and adds the dashes if they were left out
+ */
+export function normalizeCode(input: string): string {
+    const compact = input.toUpperCase().replace(/[\s-]/g, '');
+    const match = /^PENGU2026([0-9A-Z]{8})$/.exec(compact);
+    return match ? `${CODE_PREFIX}-${match[1].slice(0, 4)}-${match[1].slice(4)}` : input.trim().toUpperCase();
+}
+
+export function isWellFormedCode(code: string): boolean {
+    return CODE_PATTERN.test(code);
+}
+
+/**
+ * Luhn mod 32 check character for a string of alphabet characters
+ */
+export function codeCheckCharacter(body: string): string {
+    const n = CODE_ALPHABET.length;
+    let factor = 2;
+    let sum = 0;
+    for (let i = body.length - 1; i >= 0; i--) {
+        let addend = factor * CODE_ALPHABET.indexOf(body[i]);
+        factor = factor === 2 ? 1 : 2;
+        addend = Math.floor(addend / n) + (addend % n);
+        sum += addend;
+    }
+    return CODE_ALPHABET[(n - (sum % n)) % n];
+}
+
+/**
+ * Full code for seven random alphabet characters
+ */
+export function buildCode(body: string): string {
+    const chars = body + codeCheckCharacter(body);
+    return `${CODE_PREFIX}-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/**
+ * Whether a well-formed code's last character matches the rest
+ */
+export function hasValidChecksum(code: string): boolean {
+    if (!isWellFormedCode(code)) return false;
+    const chars = code.slice(CODE_PREFIX.length + 1).replace('-', '');
+    if ([...chars].some(c => !CODE_ALPHABET.includes(c))) return false;
+    return codeCheckCharacter(chars.slice(0, CODE_BODY_LENGTH)) === chars[CODE_BODY_LENGTH];
+}
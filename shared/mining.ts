@@ -0,0 +1,29 @@
+/**
+ * Tab Mining Shares
+ * The proof of work behind tab mining rewards. The server issues each wallet a challenge;
+ * the browser's hash workers (utils/hashWorker.ts) hash nonces under it, and a nonce whose
+ * hash has SHARE_BITS leading zero bits is a share. A tab mining claim carries one share,
+ * which the server checks with a single hash before crediting.
+ */
+
+// A share is a hash with this many leading zero bits, about one in a million hashes
+export const SHARE_BITS = 20;
+
+/**
+ * 32-bit avalanche mix of a challenge and nonce, repeated so one hash is a measurable unit
+ * of work
+ */
+export function hashNonce(challenge: number, nonce: number): number {
+    let h = challenge ^ Math.imul(nonce, 0x9e3779b1);
+    for (let round = 0; round < 8; round++) {
+        h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+        h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+        h = (h ^ (h >>> 16)) + nonce + round;
+    }
+    return h >>> 0;
+}
+
+export function isShare(challenge: number, nonce: unknown): boolean {
+    return Number.isInteger(nonce) && (nonce as number) >= 0 && (nonce as number) <= 0xffffffff
+        && hashNonce(challenge, nonce as number) >>> (32 - SHARE_BITS) === 0;
+}
@@ -0,0 +1,202 @@
+/**
+ * Realtime Protocol
+ * Every socket.io event the server and the browser exchange, with its payload. The client
+ * (utils/realtime.ts) is typed against these maps, and the server's io instance is declared
+ * with them, so an event renamed or reshaped on one side shows up on the other.
+ *
+ * Types vanish at runtime, so each client-to-server event also has a validator below. The
+ * server checks every incoming payload with validateClientEvent before handling it and
+ * answers a malformed one with protocol_error.
+ */
+
+import type { PayoutRecord } from '../types';
+
+export interface ChatMessage {
+    id: string;
+    // Display name, derived from the address
+    user: string;
+    // Sending wallet; null on messages from before names were bound to wallets
+    address: string | null;
+    // A public room or a direct message room (see shared/chat.ts)
+    room: string;
+    text: string;
+    timestamp: string;
+}
+
+// One room's history, with unread counts for every room the wallet can see when signed in
+export interface ChatHistory {
+    room: string;
+    messages: ChatMessage[];
+    unread: Record<string, number>;
+}
+
+export const LEADERBOARD_WINDOWS = ['daily', 'weekly', 'alltime'] as const;
+
+export type LeaderboardWindow = typeof LEADERBOARD_WINDOWS[number];
+
+export interface LeaderboardEntry {
+    user: string;
+    score: number;
+    timestamp: string;
+}
+
+// One page of a window's board, pushed again whenever that board changes
+export interface LeaderboardPage {
+    window: LeaderboardWindow;
+    period: string | null;
+    total: number;
+    offset: number;
+    limit: number;
+    entries: (LeaderboardEntry & { rank: number })[];
+    // The signed-in wallet's rank, even when it is not on this page
+    me: { rank: number; score: number } | null;
+}
+
+// Today's daily run board; its pool is split among the top finishers at midnight UTC
+export interface DailyLeaderboard {
+    day: string;
+    endsAt: string;
+    poolSOL: number;
+    settled: boolean;
+    entries: LeaderboardEntry[];
+}
+
+export interface ErrorPayload {
+    message: string;
+}
+
+// One problem with a payload; path is the field, empty for the payload itself
+export interface ProtocolIssue {
+    path: string;
+    message: string;
+}
+
+// Sent instead of handling an event whose payload did not validate
+export interface ProtocolErrorPayload {
+    event: string;
+    message: string;
+    issues: ProtocolIssue[];
+}
+
+export interface AckResult {
+    success: boolean;
+    error?: string;
+}
+
+type Ack<T = AckResult> = (result: T) => void;
+
+export interface ServerToClientEvents {
+    chat_history: (history: ChatHistory) => void;
+    receive_message: (message: ChatMessage) => void;
+    message_deleted: (payload: { id: string; room: string }) => void;
+    chat_error: (payload: ErrorPayload) => void;
+    leaderboard_page: (page: LeaderboardPage) => void;
+    daily_leaderboard_update: (board: DailyLeaderboard) => void;
+    payout_update: (payout: PayoutRecord) => void;
+    protocol_error: (payload: ProtocolErrorPayload) => void;
+}
+
+export interface ClientToServerEvents {
+    authenticate: (payload: { token: string }, ack: Ack<AckResult & { address?: string }>) => void;
+    // Either a room or a recipient wallet for a direct message
+    send_message: (payload: { text: string; room?: string; to?: string }) => void;
+    chat_join: (payload: { room: string }) => void;
+    chat_read: (payload: { room: string }) => void;
+    leaderboard_subscribe: (payload: { window: LeaderboardWindow; offset: number; limit: number }) => void;
+    leaderboard_unsubscribe: (payload: { window: LeaderboardWindow }) => void;
+    // Moderation, once admin_authenticate has accepted the admin key
+    admin_authenticate: (payload: { key: string }, ack: Ack) => void;
+    chat_mute: (payload: { address: string; minutes: number; reason?: string }, ack: Ack) => void;
+    chat_ban: (payload: { address: string; reason?: string }, ack: Ack) => void;
+    chat_unban: (payload: { address: string }, ack: Ack) => void;
+    chat_delete: (payload: { id: string }, ack: Ack) => void;
+}
+
+type Check = (value: unknown, path: string, issues: ProtocolIssue[]) => void;
+
+const describe = (path: string) => path || 'payload';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optional = (check: Check): Check => (value, path, issues) => {
+    if (value !== undefined) check(value, path, issues);
+};
+
+const string = ({ min = 1, max }: { min?: number; max: number }): Check => (value, path, issues) => {
+    if (typeof value !== 'string') {
+        issues.push({ path, message: `${describe(path)} must be a string` });
+    } else if (value.length < min || value.length > max) {
+        issues.push({ path, message: `${describe(path)} must be ${min} to ${max} characters long` });
+    }
+};
+
+// Finite numbers only: NaN, Infinity and numeric strings are all refused
+const number = ({ integer = false, min, max }: { integer?: boolean; min: number; max: number }): Check => (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `${describe(path)} must be a finite number` });
+    } else if (integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `${describe(path)} must be a whole number` });
+    } else if (value < min || value > max) {
+        issues.push({ path, message: `${describe(path)} must be between ${min} and ${max}` });
+    }
+};
+
+const oneOf = (values: readonly string[]): Check => (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+        issues.push({ path, message: `${describe(path)} must be one of ${values.join(', ')}` });
+    }
+};
+
+// Fields not in the shape are ignored rather than refused
+const object = (shape: Record<string, Check>): Check => (value, path, issues) => {
+    if (!isPlainObject(value)) {
+        issues.push({ path, message: `${describe(path)} must be an object` });
+        return;
+    }
+    for (const [key, check] of Object.entries(shape)) {
+        check(value[key], path ? `${path}.${key}` : key, issues);
+    }
+};
+
+// Generous bounds on raw input; the handlers apply the real rules (chat length after
+// whitespace clean-up, page size, mute length) and explain them in their own errors
+const TEXT_LENGTH_LIMIT = 1000;
+const ID_LENGTH_LIMIT = 100;
+const ADDRESS_LENGTH_LIMIT = 44;
+const REASON_LENGTH_LIMIT = 500;
+const MAX_OFFSET = 1000000;
+
+const room = string({ max: ID_LENGTH_LIMIT });
+const address = string({ max: ADDRESS_LENGTH_LIMIT });
+const reason = optional(string({ min: 0, max: REASON_LENGTH_LIMIT }));
+
+const CLIENT_EVENT_CHECKS: Record<keyof ClientToServerEvents, Check> = {
+    authenticate: object({ token: string({ max: 256 }) }),
+    send_message: object({ text: string({ max: TEXT_LENGTH_LIMIT }), room: optional(room), to: optional(address) }),
+    chat_join: object({ room }),
+    chat_read: object({ room }),
+    leaderboard_subscribe: object({
+        window: oneOf(LEADERBOARD_WINDOWS),
+        offset: number({ integer: true, min: 0, max: MAX_OFFSET }),
+        limit: number({ integer: true, min: 1, max: 1000 }),
+    }),
+    leaderboard_unsubscribe: object({ window: oneOf(LEADERBOARD_WINDOWS) }),
+    admin_authenticate: object({ key: string({ max: 256 }) }),
+    chat_mute: object({ address, minutes: number({ min: 0, max: Number.MAX_SAFE_INTEGER }), reason }),
+    chat_ban: object({ address, reason }),
+    chat_unban: object({ address }),
+    chat_delete: object({ id: string({ max: ID_LENGTH_LIMIT }) }),
+};
+
+export const isClientEvent = (event: string): event is keyof ClientToServerEvents =>
+    Object.prototype.hasOwnProperty.call(CLIENT_EVENT_CHECKS, event);
+
+/**
+ * Problems with a client event's payload; an empty list means it matches the protocol
+ */
+export function validateClientEvent(event: keyof ClientToServerEvents, payload: unknown): ProtocolIssue[] {
+    const issues: ProtocolIssue[] = [];
+    CLIENT_EVENT_CHECKS[event](payload, '', issues);
+    return issues;
+}
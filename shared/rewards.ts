@@ -0,0 +1,149 @@
+/**
+ * Reward Schedule
+ * Every reward amount (SOL) the platform pays: tab mining, captcha solves, runner
+ * milestones and tokens, the daily run pool, and code redemptions. The server loads the live schedule from
+ * server/reward-schedule.json and credits from it; the client fetches it from /api/rewards
+ * to preview what an action is worth.
+ *
+ * Schedules are versioned. Every ledger credit records the version it was paid under and
+ * the server keeps each version it has used, so old payouts can always be re-derived.
+ * Changing any amount requires a new version number.
+ */
+
+import { CaptchaDifficulty } from '../types';
+
+export interface RunRewardTable {
+    // Reward for reaching 100m, 200m, ... in order
+    milestones: number[];
+    // Reward for every further 100m past the end of the list
+    repeatingMilestone: number;
+    token: number;
+}
+
+export interface RewardSchedule {
+    version: number;
+    tabMining: {
+        rewardSOL: number;
+        intervalMs: number;
+    };
+    solve: Record<CaptchaDifficulty, number>;
+    runner: Record<CaptchaDifficulty, RunRewardTable>;
+    dailyPool: {
+        // Paid out once per UTC day, split among the day's top finishers
+        totalSOL: number;
+        // Relative share of 1st, 2nd, ... place; renormalised over the places actually taken
+        shares: number[];
+    };
+    // Value of a newly generated redemption code unless the admin sets one
+    redeemSOL: number;
+}
+
+export const MILESTONE_INTERVAL = 100;
+
+const DIFFICULTIES = [CaptchaDifficulty.EASY, CaptchaDifficulty.MEDIUM, CaptchaDifficulty.HARD];
+
+export const DEFAULT_REWARD_SCHEDULE: RewardSchedule = {
+    version: 2,
+    tabMining: {
+        rewardSOL: 0.000012,
+        intervalMs: 1500,
+    },
+    solve: {
+        [CaptchaDifficulty.EASY]: 0.002,
+        [CaptchaDifficulty.MEDIUM]: 0.005,
+        [CaptchaDifficulty.HARD]: 0.012,
+    },
+    runner: {
+        [CaptchaDifficulty.EASY]: {
+            milestones: [0.0004, 0.00055, 0.0006, 0.0008, 0.0016],
+            repeatingMilestone: 0.0008,
+            token: 0.00005,
+        },
+        [CaptchaDifficulty.MEDIUM]: {
+            milestones: [0.0006, 0.0008, 0.0009, 0.0012, 0.0024],
+            repeatingMilestone: 0.0012,
+            token: 0.00008,
+        },
+        [CaptchaDifficulty.HARD]: {
+            milestones: [0.00081, 0.0011, 0.0012, 0.0016, 0.0032],
+            repeatingMilestone: 0.0016,
+            token: 0.0001,
+        },
+    },
+    dailyPool: {
+        totalSOL: 0.05,
+        shares: [30, 20, 15, 10, 8, 6, 4, 3, 2, 2],
+    },
+    redeemSOL: 0.03,
+};
+
+const isAmount = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks that a value (e.g. parsed JSON) is a complete schedule
+ * Returns a description of the first problem, or null if it is valid
+ */
+export function validateRewardSchedule(value: unknown): string | null {
+    const schedule = value as RewardSchedule;
+    if (!schedule || typeof schedule !== 'object') return 'Schedule must be an object';
+    if (!Number.isInteger(schedule.version) || schedule.version < 1) return 'version must be a positive integer';
+    if (!schedule.tabMining || !isAmount(schedule.tabMining.rewardSOL)) return 'tabMining.rewardSOL must be an amount';
+    if (!Number.isInteger(schedule.tabMining.intervalMs) || schedule.tabMining.intervalMs < 500) {
+        return 'tabMining.intervalMs must be an integer of at least 500';
+    }
+    if (!isAmount(schedule.redeemSOL)) return 'redeemSOL must be an amount';
+    if (!schedule.dailyPool || !isAmount(schedule.dailyPool.totalSOL)) return 'dailyPool.totalSOL must be an amount';
+    const { shares } = schedule.dailyPool;
+    if (!Array.isArray(shares) || shares.length === 0 || !shares.every(share => isAmount(share) && share > 0)) {
+        return 'dailyPool.shares must be a non-empty list of positive numbers';
+    }
+
+    for (const difficulty of DIFFICULTIES) {
+        if (!schedule.solve || !isAmount(schedule.solve[difficulty])) return `solve.${difficulty} must be an amount`;
+
+        const table = schedule.runner && schedule.runner[difficulty];
+        if (!table) return `runner.${difficulty} is missing`;
+        if (!Array.isArray(table.milestones) || !table.milestones.every(isAmount)) {
+            return `runner.${difficulty}.milestones must be a list of amounts`;
+        }
+        if (!isAmount(table.repeatingMilestone)) return `runner.${difficulty}.repeatingMilestone must be an amount`;
+        if (!isAmount(table.token)) return `runner.${difficulty}.token must be an amount`;
+    }
+    return null;
+}
+
+/**
+ * Reward for a captcha solve at a difficulty
+ */
+export function getSolveReward(schedule: RewardSchedule, difficulty: CaptchaDifficulty): number {
+    return schedule.solve[difficulty] ?? 0;
+}
+
+/**
+ * Reward for reaching a milestone distance (in meters); 0 if it is not a milestone
+ */
+export function getMilestoneReward(schedule: RewardSchedule, difficulty: CaptchaDifficulty, distance: number): number {
+    const table = schedule.runner[difficulty];
+    if (!table || distance <= 0 || distance % MILESTONE_INTERVAL !== 0) return 0;
+    const index = distance / MILESTONE_INTERVAL - 1;
+    return index < table.milestones.length ? table.milestones[index] : table.repeatingMilestone;
+}
+
+/**
+ * Reward for collecting one token
+ */
+export function getTokenReward(schedule: RewardSchedule, difficulty: CaptchaDifficulty): number {
+    const table = schedule.runner[difficulty];
+    return table ? table.token : 0;
+}
+
+/**
+ * Each finisher's cut of the daily pool (SOL), best first, for the given number of finishers
+ * Places without a finisher are dropped and the pool is split over the places that were taken
+ */
+export function splitDailyPool(schedule: RewardSchedule, finishers: number): number[] {
+    const shares = schedule.dailyPool.shares.slice(0, Math.max(0, finishers));
+    const total = shares.reduce((sum, share) => sum + share, 0);
+    return shares.map(share => (total > 0 ? (schedule.dailyPool.totalSOL * share) / total : 0));
+}
@@ -0,0 +1,585 @@
+/**
+ * Runner Game Engine
+ * Pure, deterministic simulation of the runner: no DOM, no clock, no Math.random.
+ * Given the same seed, difficulty and inputs, step() produces the same run on any
+ * machine, which is what lets a run be replayed or re-simulated for validation.
+ *
+ * World coordinates: x grows right from the player's side of the screen, y grows
+ * down with the ground at y = 0, so everything standing on the ground has a negative y.
+ * Time advances in fixed ticks of TICK_MS; dt is measured in ticks.
+ *
+ * Everything that scrolls past is an Entity, tagged by kind:
+ *   rock      -> ground obstacle, jump over it
+ *   overhead  -> hangs at head height, stay on the ground under it
+ *   token     -> bonus points and SOL
+ *   shield    -> absorbs the next hit
+ *   magnet    -> pulls nearby tokens in for a while
+ *   slowtime  -> slows the world down for a while
+ *   duststorm -> a stretch of track where the renderer cuts visibility
+ * Each kind has its own spawn rule below. Spawn rules are rolled once per COURSE_STEP of
+ * track from their own random stream and never look at what the player did, so a seed always
+ * lays out the same course: two runs on one seed (e.g. a live run and a ghost) see the same
+ * obstacles in the same places.
+ *
+ * The chaser is simulated too (see updateChaser): it keeps pace with the world, jumps the
+ * obstacles it sees coming, and closes in when the player stumbles. How hard it pushes is
+ * set per difficulty in CHASER_PROFILES.
+ */
+
+import { CaptchaDifficulty } from '../../types';
+import { Rng } from './prng';
+
+export const TICK_MS = 1000 / 60;
+
+// Bumped whenever a change to the simulation would make old replays play out differently
+export const ENGINE_VERSION = 2;
+
+// Obstacles and tokens spawn at this x regardless of the viewport size
+export const WORLD_WIDTH = 1920;
+
+export const CHARACTER_SIZE = 120;
+const OBSTACLE_WIDTH = 25;
+const MAX_SPEED = 13;
+const INVULNERABLE_TICKS = 120; // 2 seconds
+const MAX_HITS = 2;
+
+// Overhead obstacles leave this much room above the ground: enough to run under, not to jump
+const OVERHEAD_CLEARANCE = 140;
+const OVERHEAD_WIDTH = 90;
+// Extra room after an overhead obstacle so the next rock can still be jumped
+const OVERHEAD_GAP = 150;
+
+// Track distance (world pixels) between spawn rolls
+const COURSE_STEP = 6;
+// Track distance between speed-ups, 100m of running
+const SPEED_STAGE = 2500;
+const TOKEN_SPACING = 300;
+const POWER_UP_SPACING = WORLD_WIDTH;
+
+const MAGNET_RADIUS = 450;
+const MAGNET_PULL = 0.15;
+const SLOW_FACTOR = 0.6;
+
+export interface DifficultyConfig {
+    speed: number;
+    gravity: number;
+    jumpStrength: number;
+    gapMin: number;
+    gapMax: number;
+    winScore: number;
+}
+
+export const GAME_CONFIG: Record<CaptchaDifficulty, DifficultyConfig> = {
+    [CaptchaDifficulty.EASY]: { speed: 4, gravity: 0.6, jumpStrength: -10, gapMin: 150, gapMax: 300, winScore: 500 },
+    [CaptchaDifficulty.MEDIUM]: { speed: 6, gravity: 0.6, jumpStrength: -11, gapMin: 120, gapMax: 250, winScore: 1000 },
+    [CaptchaDifficulty.HARD]: { speed: 6, gravity: 0.7, jumpStrength: -12, gapMin: 100, gapMax: 220, winScore: 2000 },
+};
+
+export interface ChaserProfile {
+    // Distance kept behind the player before the first hit and after it
+    restGap: [number, number];
+    // Fastest the chaser closes or opens the gap, as a share of the world speed
+    pace: number;
+    // Pace and duration of the burst after the player stumbles into an obstacle
+    surgePace: number;
+    surgeTicks: number;
+    // Chance of misjudging a jump and tripping over the obstacle
+    mistakeChance: number;
+    // How long a trip slows it down
+    stunTicks: number;
+}
+
+/**
+ * How hard the chaser pushes at each difficulty. A surge covers about
+ * surgePace * speed * surgeTicks pixels, so on easy it never reaches the player,
+ * on medium it can once the run has sped up, and on hard it nearly can from the start.
+ */
+export const CHASER_PROFILES: Record<CaptchaDifficulty, ChaserProfile> = {
+    [CaptchaDifficulty.EASY]: { restGap: [220, 70], pace: 0.3, surgePace: 0.3, surgeTicks: 45, mistakeChance: 0.3, stunTicks: 50 },
+    [CaptchaDifficulty.MEDIUM]: { restGap: [180, 40], pace: 0.35, surgePace: 0.45, surgeTicks: 60, mistakeChance: 0.2, stunTicks: 40 },
+    [CaptchaDifficulty.HARD]: { restGap: [150, 20], pace: 0.4, surgePace: 0.5, surgeTicks: 50, mistakeChance: 0.1, stunTicks: 30 },
+};
+
+// Ticks before reaching a rock that a jump clears it best
+const CHASER_JUMP_LEAD = 6;
+// How far into the player the chaser aims while surging; enough overlap to grab them
+const CATCH_REACH = CHARACTER_SIZE * 0.75;
+const CHASER_DIVE_SPEED = 8;
+
+export interface ChaserAi {
+    surgeTicks: number;
+    stunTicks: number;
+    // Lead picked for the next jump; rolled on every landing, sometimes badly
+    jumpLead: number;
+}
+
+export interface Body {
+    x: number;
+    y: number;
+    dy: number;
+    grounded: boolean;
+    targetX: number;
+}
+
+interface EntityBase {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface Obstacle extends EntityBase {
+    kind: 'rock' | 'overhead';
+}
+
+export interface Token extends EntityBase {
+    kind: 'token';
+    floatOffset: number;
+}
+
+export type PowerUpKind = 'shield' | 'magnet' | 'slowtime';
+
+export interface PowerUp extends EntityBase {
+    kind: PowerUpKind;
+    floatOffset: number;
+}
+
+export interface DustStorm extends EntityBase {
+    kind: 'duststorm';
+}
+
+export type Entity = Obstacle | Token | PowerUp | DustStorm;
+
+export const isObstacle = (entity: Entity): entity is Obstacle => entity.kind === 'rock' || entity.kind === 'overhead';
+export const isPowerUp = (entity: Entity): entity is PowerUp =>
+    entity.kind === 'shield' || entity.kind === 'magnet' || entity.kind === 'slowtime';
+
+interface PowerUpRule {
+    // Chance per course step once the run has covered this much track
+    chance: number;
+    minTravelled: number;
+    // How long the effect lasts; 0 for the shield, which lasts until it absorbs a hit
+    durationTicks: number;
+}
+
+const POWER_UP_RULES: Record<PowerUpKind, PowerUpRule> = {
+    shield: { chance: 0.0015, minTravelled: 150, durationTicks: 0 },
+    magnet: { chance: 0.002, minTravelled: 0, durationTicks: 600 }, // 10 seconds
+    slowtime: { chance: 0.0012, minTravelled: 500, durationTicks: 300 }, // 5 seconds
+};
+
+export type EngineEvent =
+    | { type: 'jump' }
+    | { type: 'hit'; hitCount: number }
+    | { type: 'shield_break' }
+    | { type: 'power_up'; kind: PowerUpKind }
+    | { type: 'token' }
+    | { type: 'caught' }
+    | { type: 'milestone'; distance: number }
+    | { type: 'game_over'; score: number };
+
+export interface EngineInput {
+    jump: boolean;
+}
+
+export interface EngineState {
+    seed: number;
+    difficulty: CaptchaDifficulty;
+    // Course stream: spawn rules only
+    rng: number;
+    // Chaser stream, kept apart so the chaser never changes the course
+    chaserRng: number;
+    tick: number;
+    status: 'PLAYING' | 'GAME_OVER';
+    player: Body;
+    chaser: Body;
+    chaserAi: ChaserAi;
+    entities: Entity[];
+    hitCount: number;
+    invulnerableTicks: number;
+    shield: boolean;
+    magnetTicks: number;
+    slowTicks: number;
+    score: number;
+    speed: number;
+    // Track scrolled past so far (world pixels) and how far the spawn rules have been rolled
+    travelled: number;
+    spawnedTo: number;
+    lastTokenAt: number;
+    lastPowerUpAt: number;
+    lastMilestone: number;
+    tokensCollected: number;
+    // Events produced by the most recent step only
+    events: EngineEvent[];
+}
+
+const groundedBody = (x: number): Body => ({ x, y: -CHARACTER_SIZE, dy: 0, grounded: true, targetX: x });
+
+/**
+ * Fresh run for a seed and difficulty
+ */
+export function createInitialState(seed: number, difficulty: CaptchaDifficulty): EngineState {
+    return {
+        seed: seed >>> 0,
+        difficulty,
+        rng: seed >>> 0,
+        chaserRng: (seed ^ 0x9E3779B9) >>> 0,
+        tick: 0,
+        status: 'PLAYING',
+        player: groundedBody(200),
+        chaser: groundedBody(-200),
+        chaserAi: { surgeTicks: 0, stunTicks: 0, jumpLead: CHASER_JUMP_LEAD },
+        entities: [],
+        hitCount: 0,
+        invulnerableTicks: 0,
+        shield: false,
+        magnetTicks: 0,
+        slowTicks: 0,
+        score: 0,
+        speed: GAME_CONFIG[difficulty].speed,
+        travelled: 0,
+        spawnedTo: 0,
+        lastTokenAt: -Infinity,
+        lastPowerUpAt: -Infinity,
+        lastMilestone: 0,
+        tokensCollected: 0,
+        events: [],
+    };
+}
+
+/**
+ * Distance in meters shown to the player and used for milestones
+ */
+export const getDistance = (score: number) => Math.floor(score / 50);
+
+const overlaps = (ax: number, ay: number, aw: number, ah: number, bx: number, by: number, bw: number, bh: number) =>
+    ax < bx + bw && ax + aw > bx && ay < by + bh && ay + ah > by;
+
+const applyGravity = (body: Body, gravity: number, dt: number) => {
+    body.dy += gravity * dt;
+    body.y += body.dy * dt;
+    if (body.y + CHARACTER_SIZE >= 0) {
+        body.y = -CHARACTER_SIZE;
+        body.dy = 0;
+        body.grounded = true;
+    }
+};
+
+const hitsObstacle = (player: Body, obs: Obstacle) => {
+    const hitMargin = CHARACTER_SIZE * 0.2; // 20% forgiveness
+    const size = CHARACTER_SIZE - hitMargin * 2;
+    return overlaps(
+        player.x + hitMargin, player.y + hitMargin, size, size,
+        obs.x + obs.width * 0.1, obs.y, obs.width * 0.8, obs.height
+    );
+};
+
+const touchesPickup = (player: Body, pickup: Token | PowerUp) => {
+    const hitMargin = 10;
+    const size = CHARACTER_SIZE - hitMargin * 2;
+    return overlaps(player.x + hitMargin, player.y + hitMargin, size, size, pickup.x, pickup.y, pickup.width, pickup.height);
+};
+
+const findLast = <T extends Entity>(entities: Entity[], match: (entity: Entity) => entity is T): T | undefined => {
+    for (let i = entities.length - 1; i >= 0; i--) {
+        const entity = entities[i];
+        if (match(entity)) return entity;
+    }
+    return undefined;
+};
+
+// Pickups never spawn inside an obstacle
+const isSpawnPointClear = (state: EngineState, spawnX: number) =>
+    !state.entities.some(entity => isObstacle(entity) && Math.abs(entity.x - spawnX) < 100);
+
+const spawnObstacles = (state: EngineState, rng: Rng, spawnX: number) => {
+    const lastObs = findLast(state.entities, isObstacle);
+
+    // Cap the gap so it doesn't get too wide at high speeds
+    const minGap = Math.min(state.speed * 40, 450);
+    const variance = rng.next() * 180;
+    const extraGap = lastObs && lastObs.kind === 'overhead' ? OVERHEAD_GAP + lastObs.width : 0;
+    if (lastObs && spawnX - lastObs.x <= minGap + variance + extraGap) return;
+
+    // Overhead obstacles start appearing once the player has the hang of jumping
+    if (state.spawnedTo > 250 && rng.next() < 0.15) {
+        const height = Math.floor(rng.next() * 20) + 40;
+        state.entities.push({ kind: 'overhead', x: spawnX, y: -OVERHEAD_CLEARANCE - height, width: OVERHEAD_WIDTH, height });
+        return;
+    }
+
+    const width = OBSTACLE_WIDTH + 15;
+    const height = Math.floor(rng.next() * 30) + 35;
+    state.entities.push({ kind: 'rock', x: spawnX, y: -height, width, height });
+
+    // Occasional "double" obstacle that needs a big jump, only after a while
+    if (rng.next() < 0.2 && state.spawnedTo > 150) {
+        const secondHeight = Math.floor(rng.next() * 30) + 35;
+        state.entities.push({ kind: 'rock', x: spawnX + width + 5, y: -secondHeight, width, height: secondHeight });
+    }
+};
+
+const spawnTokens = (state: EngineState, rng: Rng, spawnX: number) => {
+    // Always draw the same numbers so the stream stays in step whether or not a token appears
+    const roll = rng.next();
+    const y = -110 - rng.next() * 50;
+    const floatOffset = rng.next() * Math.PI * 2;
+
+    if (roll >= 0.02) return;
+    if (state.spawnedTo - state.lastTokenAt <= TOKEN_SPACING) return;
+    if (!isSpawnPointClear(state, spawnX)) return;
+
+    state.lastTokenAt = state.spawnedTo;
+    state.entities.push({ kind: 'token', x: spawnX, y, width: 80, height: 80, floatOffset });
+};
+
+const spawnPowerUps = (state: EngineState, rng: Rng, spawnX: number) => {
+    const kinds = Object.keys(POWER_UP_RULES) as PowerUpKind[];
+    const rolls = kinds.map(() => rng.next());
+    const y = -120 - rng.next() * 40;
+    const floatOffset = rng.next() * Math.PI * 2;
+
+    // Power-ups are spread out, at most one per screen of track
+    if (state.spawnedTo - state.lastPowerUpAt < POWER_UP_SPACING) return;
+
+    const kind = kinds.find((k, i) => state.spawnedTo >= POWER_UP_RULES[k].minTravelled && rolls[i] < POWER_UP_RULES[k].chance);
+    if (!kind || !isSpawnPointClear(state, spawnX)) return;
+
+    state.lastPowerUpAt = state.spawnedTo;
+    state.entities.push({ kind, x: spawnX, y, width: 60, height: 60, floatOffset });
+};
+
+const spawnDustStorm = (state: EngineState, rng: Rng, spawnX: number) => {
+    if (state.spawnedTo < 400 || state.entities.some(entity => entity.kind === 'duststorm')) return;
+    if (rng.next() >= 0.001) return;
+
+    // The storm is a stretch of track; its height is unused
+    const length = 1500 + Math.floor(rng.next() * 1500);
+    state.entities.push({ kind: 'duststorm', x: spawnX, y: 0, width: length, height: 0 });
+};
+
+const applyPowerUp = (state: EngineState, kind: PowerUpKind) => {
+    const rule = POWER_UP_RULES[kind];
+    if (kind === 'shield') state.shield = true;
+    if (kind === 'magnet') state.magnetTicks = rule.durationTicks;
+    if (kind === 'slowtime') state.slowTicks = rule.durationTicks;
+    state.events.push({ type: 'power_up', kind });
+};
+
+const rollJumpLead = (profile: ChaserProfile, rng: Rng) => {
+    if (rng.next() < profile.mistakeChance) {
+        // Far too late or far too early; either way it runs into the rock
+        return rng.next() < 0.5 ? 1 : CHASER_JUMP_LEAD + 14;
+    }
+    return CHASER_JUMP_LEAD - 1 + rng.next() * 3;
+};
+
+const bodiesTouch = (a: Body, b: Body) => {
+    const margin = CHARACTER_SIZE * 0.25;
+    const size = CHARACTER_SIZE - margin * 2;
+    return overlaps(a.x + margin, a.y + margin, size, size, b.x + margin, b.y + margin, size, size);
+};
+
+/**
+ * Moves the chaser for one step: keep up, clear the obstacles ahead and surge at a
+ * stumbling player. Returns true if it caught the player.
+ */
+const updateChaser = (state: EngineState, cfg: DifficultyConfig, rng: Rng, worldSpeed: number, dt: number) => {
+    const profile = CHASER_PROFILES[state.difficulty];
+    const c = state.chaser;
+    const p = state.player;
+    const ai = state.chaserAi;
+
+    ai.stunTicks = Math.max(0, ai.stunTicks - dt);
+
+    // Pursuit: the gap closes at a pace tied to the world speed, so it keeps up as the run speeds up
+    if (ai.stunTicks > 0) {
+        // Tripped: the world carries it back for a moment
+        c.x -= worldSpeed * 0.5 * dt;
+    } else {
+        const surging = ai.surgeTicks > 0;
+        const gap = surging ? -CATCH_REACH : profile.restGap[Math.min(state.hitCount, 1)];
+        c.targetX = p.x - CHARACTER_SIZE - gap;
+        const maxStep = (surging ? profile.surgePace : profile.pace) * worldSpeed * dt;
+        const wanted = surging ? c.targetX - c.x : (c.targetX - c.x) * 0.05 * dt;
+        c.x += Math.max(-maxStep, Math.min(maxStep, wanted));
+    }
+    ai.surgeTicks = Math.max(0, ai.surgeTicks - dt);
+
+    // Look ahead at the obstacles still in front of it
+    const front = c.x + CHARACTER_SIZE;
+    const obstacles = state.entities
+        .filter((entity): entity is Obstacle => isObstacle(entity) && entity.x + entity.width > c.x)
+        .sort((a, b) => a.x - b.x);
+    const rock = obstacles.find(obs => obs.kind === 'rock');
+    const overhead = obstacles.find(obs => obs.kind === 'overhead');
+    const airtime = 2 * -cfg.jumpStrength / cfg.gravity;
+    const overheadSoon = !!overhead && (overhead.x - front) / worldSpeed < airtime;
+
+    if (c.grounded && ai.stunTicks === 0 && rock && !overheadSoon) {
+        const ticksToRock = (rock.x - front) / worldSpeed;
+        if (ticksToRock >= 0 && ticksToRock <= ai.jumpLead) {
+            c.dy = cfg.jumpStrength;
+            c.grounded = false;
+        }
+    }
+
+    // Land on purpose: drop once the rock is cleared, or straight away to get under an overhead
+    const overRock = !!rock && rock.x < front && rock.x + rock.width > c.x;
+    if (!c.grounded && !overRock && (c.dy > 0 || overheadSoon)) {
+        c.dy = Math.max(c.dy, CHASER_DIVE_SPEED);
+    }
+
+    const wasAirborne = !c.grounded;
+    applyGravity(c, cfg.gravity, dt);
+    if (wasAirborne && c.grounded) ai.jumpLead = rollJumpLead(profile, rng);
+
+    if (ai.stunTicks === 0 && obstacles.some(obs => hitsObstacle(c, obs))) {
+        ai.stunTicks = profile.stunTicks;
+        ai.surgeTicks = 0;
+        ai.jumpLead = rollJumpLead(profile, rng);
+    }
+
+    return ai.surgeTicks > 0 && bodiesTouch(c, p);
+};
+
+/**
+ * Whether the player is inside a dust storm, where visibility is cut
+ */
+export const isInDustStorm = (state: EngineState) =>
+    state.entities.some(entity => entity.kind === 'duststorm'
+        && entity.x < state.player.x + CHARACTER_SIZE && entity.x + entity.width > state.player.x);
+
+/**
+ * Advances a run by dt ticks and returns the new state; the input state is not modified.
+ * Anything the UI should react to (rewards, hits, game over) is reported in next.events.
+ */
+export function step(state: EngineState, input: EngineInput, dt = 1): EngineState {
+    if (state.status !== 'PLAYING') return { ...state, events: [] };
+
+    const cfg = GAME_CONFIG[state.difficulty];
+    const rng = new Rng(state.rng);
+    const chaserRng = new Rng(state.chaserRng);
+    const next: EngineState = {
+        ...state,
+        player: { ...state.player },
+        chaser: { ...state.chaser },
+        chaserAi: { ...state.chaserAi },
+        entities: state.entities.map(entity => ({ ...entity })),
+        tick: state.tick + 1,
+        invulnerableTicks: Math.max(0, state.invulnerableTicks - dt),
+        magnetTicks: Math.max(0, state.magnetTicks - dt),
+        slowTicks: Math.max(0, state.slowTicks - dt),
+        events: [],
+    };
+    const p = next.player;
+
+    if (input.jump && p.grounded) {
+        p.dy = cfg.jumpStrength;
+        p.grounded = false;
+        next.events.push({ type: 'jump' });
+    }
+
+    // Slow-time slows the world, not the player's jump
+    const slowFactor = next.slowTicks > 0 ? SLOW_FACTOR : 1;
+    const worldSpeed = next.speed * slowFactor;
+
+    // Speed builds with track covered rather than time, so the course stays the same with slow-time
+    if (next.speed < MAX_SPEED) next.speed += 0.001 * slowFactor * dt;
+
+    // Each hit moves the player back towards the chaser
+    p.targetX = next.hitCount === 0 ? 200 : 150;
+    p.x += (p.targetX - p.x) * 0.05 * dt;
+
+    applyGravity(p, cfg.gravity, dt);
+
+    const playerCenterX = p.x + CHARACTER_SIZE / 2;
+    const playerCenterY = p.y + CHARACTER_SIZE / 2;
+    next.entities.forEach(entity => {
+        entity.x -= worldSpeed * dt;
+        if (entity.kind !== 'token' || next.magnetTicks === 0) return;
+
+        const dx = playerCenterX - (entity.x + entity.width / 2);
+        const dy = playerCenterY - (entity.y + entity.height / 2);
+        if (dx * dx + dy * dy < MAGNET_RADIUS * MAGNET_RADIUS) {
+            entity.x += dx * MAGNET_PULL * dt;
+            entity.y += dy * MAGNET_PULL * dt;
+        }
+    });
+    next.entities = next.entities.filter(entity => entity.x + entity.width > -100);
+
+    next.score += worldSpeed * dt;
+
+    const prevStage = Math.floor(next.travelled / SPEED_STAGE);
+    next.travelled += worldSpeed * dt;
+    if (Math.floor(next.travelled / SPEED_STAGE) > prevStage) next.speed += 0.5;
+
+    while (next.spawnedTo + COURSE_STEP <= next.travelled) {
+        next.spawnedTo += COURSE_STEP;
+        // Whatever spawned at this point of the track has already scrolled a little way in
+        const spawnX = WORLD_WIDTH - (next.travelled - next.spawnedTo);
+        spawnObstacles(next, rng, spawnX);
+        spawnTokens(next, rng, spawnX);
+        spawnPowerUps(next, rng, spawnX);
+        spawnDustStorm(next, rng, spawnX);
+    }
+
+    const hit = next.invulnerableTicks === 0
+        && next.entities.some(entity => isObstacle(entity) && hitsObstacle(p, entity));
+    if (hit && next.shield) {
+        // The shield takes the hit instead of the player
+        next.shield = false;
+        next.invulnerableTicks = INVULNERABLE_TICKS;
+        next.events.push({ type: 'shield_break' });
+    } else if (hit) {
+        next.hitCount += 1;
+        next.events.push({ type: 'hit', hitCount: next.hitCount });
+        if (next.hitCount >= MAX_HITS) {
+            next.status = 'GAME_OVER';
+            next.rng = rng.state;
+            next.chaserRng = chaserRng.state;
+            next.events.push({ type: 'game_over', score: next.score });
+            return next;
+        }
+        next.invulnerableTicks = INVULNERABLE_TICKS;
+        // A stumble is the chaser's chance
+        next.chaserAi.surgeTicks = CHASER_PROFILES[next.difficulty].surgeTicks;
+    }
+
+    if (updateChaser(next, cfg, chaserRng, worldSpeed, dt)) {
+        next.status = 'GAME_OVER';
+        next.rng = rng.state;
+        next.chaserRng = chaserRng.state;
+        next.events.push({ type: 'caught' });
+        next.events.push({ type: 'game_over', score: next.score });
+        return next;
+    }
+
+    next.entities = next.entities.filter(entity => {
+        if (entity.kind === 'token') {
+            if (!touchesPickup(p, entity)) return true;
+            next.score += 100; // Bonus points
+            next.tokensCollected += 1;
+            next.events.push({ type: 'token' });
+            return false;
+        }
+        if (isPowerUp(entity)) {
+            if (!touchesPickup(p, entity)) return true;
+            applyPowerUp(next, entity.kind);
+            return false;
+        }
+        return true;
+    });
+
+    next.score += worldSpeed * dt;
+
+    const milestone = Math.floor(getDistance(next.score) / 100) * 100;
+    if (milestone > 0 && milestone > next.lastMilestone) {
+        next.lastMilestone = milestone;
+        next.events.push({ type: 'milestone', distance: milestone });
+    }
+
+    next.rng = rng.state;
+    next.chaserRng = chaserRng.state;
+    return next;
+}
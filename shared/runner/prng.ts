@@ -0,0 +1,41 @@
+/**
+ * Seeded PRNG (mulberry32)
+ * Small, fast and identical in every JS engine, so a run's seed fully determines
+ * its obstacle, token and chaser decisions on both the client and the server.
+ */
+
+/**
+ * Advances the generator state and returns [value in [0, 1), next state]
+ */
+export function nextRandom(state: number): [number, number] {
+    const next = (state + 0x6D2B79F5) >>> 0;
+    let t = next;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return [value, next];
+}
+
+/**
+ * Mutable wrapper for use inside a single step; read .state back when done
+ */
+export class Rng {
+    state: number;
+
+    constructor(state: number) {
+        this.state = state >>> 0;
+    }
+
+    next(): number {
+        const [value, next] = nextRandom(this.state);
+        this.state = next;
+        return value;
+    }
+}
+
+/**
+ * Random 32-bit seed for a new run
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,86 @@
+/**
+ * Run Replays
+ * A run is fully described by its seed, difficulty and the ticks at which the player
+ * pressed jump. Feeding that log back through step() reproduces the run exactly.
+ */
+
+import { CaptchaDifficulty } from '../../types';
+import { createInitialState, step, EngineState } from './engine';
+
+export interface RunLog {
+    // Ticks simulated before the run ended (game over or the player stopped)
+    ticks: number;
+    // Tick numbers at which jump was pressed, in ascending order
+    jumps: number[];
+    // Distance the client says it reached, in meters
+    distance: number;
+    // Browser-side signals the replay cannot reconstruct
+    telemetry?: RunTelemetry;
+}
+
+export interface RunTelemetry {
+    // Inputs whose DOM event had isTrusted === false (dispatched by script)
+    untrustedInputs: number;
+}
+
+export type ReplayObserver = (prev: EngineState, next: EngineState, jumped: boolean) => void;
+
+/**
+ * Whether a jump log is well formed: integer ticks, ascending, within the run
+ */
+export function isValidJumpLog(jumps: unknown, ticks: number): jumps is number[] {
+    if (!Array.isArray(jumps) || jumps.length > ticks) return false;
+    let previous = -1;
+    for (const tick of jumps) {
+        if (!Number.isInteger(tick) || tick < previous || tick >= ticks) return false;
+        previous = tick;
+    }
+    return true;
+}
+
+// Where a replay has got to: the state so far and the next jump to apply
+interface ReplayCursor {
+    state: EngineState;
+    nextJump: number;
+}
+
+// Steps the cursor up to (not including) untilTick, or until game over
+const advance = (cursor: ReplayCursor, log: Pick<RunLog, 'ticks' | 'jumps'>, untilTick: number, observe?: ReplayObserver) => {
+    while (cursor.state.tick < untilTick && cursor.state.status === 'PLAYING') {
+        let jump = false;
+        while (cursor.nextJump < log.jumps.length && log.jumps[cursor.nextJump] === cursor.state.tick) {
+            jump = true;
+            cursor.nextJump++;
+        }
+        const next = step(cursor.state, { jump });
+        if (observe) observe(cursor.state, next, jump);
+        cursor.state = next;
+    }
+};
+
+// Ticks replayed between yields by replayRunInSlices
+const REPLAY_SLICE_TICKS = 1000;
+
+/**
+ * Re-simulates a run from its seed and inputs and returns the final state.
+ * Stops early if the replay reaches game over before log.ticks.
+ * An observer, if given, sees every step along with whether jump was pressed on it.
+ */
+export function replayRun(seed: number, difficulty: CaptchaDifficulty, log: Pick<RunLog, 'ticks' | 'jumps'>, observe?: ReplayObserver): EngineState {
+    const cursor: ReplayCursor = { state: createInitialState(seed, difficulty), nextJump: 0 };
+    advance(cursor, log, log.ticks, observe);
+    return cursor.state;
+}
+
+/**
+ * replayRun for servers: the same replay, handing the event loop back between slices of
+ * ticks so a long run does not hold up everything else while it is verified
+ */
+export async function replayRunInSlices(seed: number, difficulty: CaptchaDifficulty, log: Pick<RunLog, 'ticks' | 'jumps'>, observe?: ReplayObserver): Promise<EngineState> {
+    const cursor: ReplayCursor = { state: createInitialState(seed, difficulty), nextJump: 0 };
+    while (cursor.state.tick < log.ticks && cursor.state.status === 'PLAYING') {
+        advance(cursor, log, Math.min(log.ticks, cursor.state.tick + REPLAY_SLICE_TICKS), observe);
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return cursor.state;
+}
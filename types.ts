@@ -9,13 +9,75 @@ export interface MiningStats {
   solves: number;
 }
 
+export interface LedgerSummary {
+  balanceSOL: number;
+  earnedSOL: number;
+  withdrawnSOL: number;
+}
+
+export type RewardSource = 'tab_mining';
+
+// A server-rendered captcha; the answer is only known to the server
+export interface CaptchaImage {
+  captchaId: string;
+  difficulty: CaptchaDifficulty;
+  svg: string;
+  expiresAt: number;
+}
+
+export interface CaptchaSolveResult {
+  success: boolean;
+  rewardSOL?: number;
+  error?: string;
+  // The captcha can no longer be answered and a new one is needed
+  expired?: boolean;
+}
+
+// A runner run issued by the server; its seed decides every obstacle and token
+export interface RunTicket {
+  runId: string;
+  seed: number;
+  difficulty: CaptchaDifficulty;
+  // UTC date of the daily run this ticket is for; absent for regular runs
+  day?: string;
+}
+
+// Outcome of the server replaying a finished run
+export interface RunResult {
+  verified: boolean;
+  // Verified but held back by the proof-of-human score until reviewed
+  held?: boolean;
+  distance: number;
+  rewardSOL: number;
+  error?: string;
+}
+
+export type GhostSource = 'personal' | 'leader';
+
+// A recorded run the client replays alongside a live run on the same seed
+export interface GhostRun {
+  runId: string;
+  address: string;
+  seed: number;
+  difficulty: CaptchaDifficulty;
+  ticks: number;
+  jumps: number[];
+  distance: number;
+}
+
+// Mirrors the server payout queue: [held ->] requested -> signed -> broadcast -> confirmed -> finalized
+export type PayoutStatus = 'held' | 'requested' | 'signed' | 'broadcast' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
 export interface PayoutRecord {
   id: string;
   timestamp: number;
   amountSOL: number;
-  status: 'pending' | 'completed' | 'failed';
+  status: PayoutStatus;
   txHash?: string;
+  explorerUrl?: string;
   address: string;
+  error?: string;
+  holdReason?: string;
 }
 
 export enum CaptchaDifficulty {
@@ -35,7 +97,9 @@ export enum MinerStatus {
 }
 
 export interface MinerConfig {
+  // Tab mining worker threads
   threads: number;
+  // Percent of each duty cycle the tab mining workers sit idle
   throttle: number;
   payoutAddress: string;
 }
@@ -0,0 +1,55 @@
+/**
+ * Backend API Client
+ * Resolves the API server URL and wraps JSON requests to it
+ */
+
+// Only use localhost fallback if we are actually running on localhost
+const isLocal = typeof window !== 'undefined' &&
+    (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
+
+export const API_URL = import.meta.env.VITE_API_URL || (isLocal ? 'http://localhost:3001' : '');
+
+/**
+ * Error thrown for failed API calls
+ * status is 0 when the server could not be reached at all
+ */
+export class ApiError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+    }
+}
+
+/**
+ * Sends a JSON request to the backend and returns the parsed body
+ * Throws ApiError for network failures and non-2xx responses
+ */
+export async function apiRequest<T>(
+    path: string,
+    options: { method?: 'GET' | 'POST'; body?: unknown; headers?: Record<string, string> } = {}
+): Promise<T> {
+    if (!API_URL) throw new ApiError('API server is not configured', 0);
+
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+    let response: Response;
+    try {
+        response = await fetch(`${API_URL}${path}`, {
+            method: options.method || 'GET',
+            headers,
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        });
+    } catch {
+        throw new ApiError('Network error. Please try again.', 0);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new ApiError(data.error || `Request failed (${response.status})`, response.status);
+    }
+    return data as T;
+}
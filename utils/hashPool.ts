@@ -0,0 +1,87 @@
+/**
+ * Hash Pool
+ * The Web Workers behind tab mining: one hashWorker.ts per configured thread, all held to
+ * the same duty cycle. Worker counters are passed on as they arrive and added up into a
+ * hash rate, so the figures the dashboard shows are hashes this browser really computed.
+ */
+
+import type { HashWorkerCommand, HashWorkerProgress } from './hashWorker';
+
+export interface HashPoolSettings {
+    threads: number;
+    // Percent of each duty cycle the workers sit idle
+    throttle: number;
+}
+
+export interface HashPoolReport {
+    // Counted by one worker since its last report
+    hashes: number;
+    shares: number;
+    // Challenge that worker was hashing under, and the last share it found for it
+    challenge: number;
+    share: number | null;
+    // Latest rate of every worker added together, in hashes per second
+    hashRate: number;
+}
+
+export interface HashPool {
+    // Starts the pool, or resizes and re-throttles a running one
+    run(settings: HashPoolSettings): void;
+    // Points every worker at the challenge for the next claim
+    setChallenge(challenge: number): void;
+    stop(): void;
+    onReport(listener: (report: HashPoolReport) => void): () => void;
+}
+
+// Workers always get at least a tenth of each cycle, or they would never report
+export const MAX_THROTTLE = 90;
+
+export const maxThreads = () => navigator.hardwareConcurrency || 4;
+
+const toDutyCycle = (throttle: number) => 1 - Math.min(MAX_THROTTLE, Math.max(0, throttle)) / 100;
+
+export function createHashPool(): HashPool {
+    const workers: { worker: Worker; rate: number }[] = [];
+    const listeners = new Set<(report: HashPoolReport) => void>();
+    let dutyCycle = 1;
+    let challenge = 0;
+
+    const command = (worker: Worker, message: HashWorkerCommand) => worker.postMessage(message);
+
+    const spawn = () => {
+        const worker = new Worker(new URL('./hashWorker.ts', import.meta.url), { type: 'module' });
+        const entry = { worker, rate: 0 };
+        worker.addEventListener('message', (event: MessageEvent<HashWorkerProgress>) => {
+            const { hashes, shares, share, elapsedMs } = event.data;
+            entry.rate = elapsedMs > 0 ? (hashes / elapsedMs) * 1000 : 0;
+            const hashRate = workers.reduce((sum, { rate }) => sum + rate, 0);
+            listeners.forEach(listener => listener({ hashes, shares, challenge: event.data.challenge, share, hashRate }));
+        });
+        command(worker, { type: 'start', dutyCycle, challenge, start: crypto.getRandomValues(new Uint32Array(1))[0] });
+        workers.push(entry);
+    };
+
+    return {
+        run({ threads, throttle }) {
+            dutyCycle = toDutyCycle(throttle);
+            const size = Math.min(maxThreads(), Math.max(1, Math.floor(threads) || 1));
+            while (workers.length > size) workers.pop()!.worker.terminate();
+            workers.forEach(({ worker }) => command(worker, { type: 'duty', dutyCycle }));
+            while (workers.length < size) spawn();
+        },
+
+        setChallenge(next) {
+            challenge = next;
+            workers.forEach(({ worker }) => command(worker, { type: 'challenge', dutyCycle, challenge }));
+        },
+
+        stop() {
+            while (workers.length) workers.pop()!.worker.terminate();
+        },
+
+        onReport(listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+    };
+}
@@ -0,0 +1,89 @@
+/**
+ * Hash Worker
+ * One thread of the tab mining pool (see hashPool.ts). Runs the proof-of-work loop of
+ * shared/mining.ts: hash the next nonce under the server's challenge, count it, and count a
+ * share whenever the hash has enough leading zero bits. Work is done in slices; the loop
+ * hashes for the duty-cycle fraction of each slice and sleeps for the rest, and reports its
+ * counters about once a second.
+ */
+
+import { hashNonce, SHARE_BITS } from '../shared/mining';
+
+export interface HashWorkerCommand {
+    type: 'start' | 'duty' | 'challenge';
+    // Fraction of each slice spent hashing, 0 to 1
+    dutyCycle: number;
+    // Challenge the server issued for the next claim
+    challenge?: number;
+    // Where this worker's nonces start, so threads do not repeat each other's work
+    start?: number;
+}
+
+export interface HashWorkerProgress {
+    hashes: number;
+    shares: number;
+    // The challenge the counts were hashed under, and the last share found for it
+    challenge: number;
+    share: number | null;
+    // Wall time the counts cover, sleep included
+    elapsedMs: number;
+}
+
+const SLICE_MS = 100;
+const REPORT_MS = 1000;
+// Hashes between clock reads
+const BATCH = 4096;
+
+let challenge = 0;
+let nonce = 0;
+let dutyCycle = 1;
+let running = false;
+let hashes = 0;
+let shares = 0;
+let share: number | null = null;
+let reportedAt = 0;
+
+const report = (now: number) => {
+    const progress: HashWorkerProgress = { hashes, shares, challenge, share, elapsedMs: now - reportedAt };
+    self.postMessage(progress);
+    hashes = 0;
+    shares = 0;
+    share = null;
+    reportedAt = now;
+};
+
+const slice = () => {
+    const start = performance.now();
+    let now = start;
+    while (now - start < SLICE_MS * dutyCycle) {
+        for (let i = 0; i < BATCH; i++) {
+            if (hashNonce(challenge, nonce) >>> (32 - SHARE_BITS) === 0) {
+                shares++;
+                share = nonce;
+            }
+            nonce = (nonce + 1) >>> 0;
+        }
+        hashes += BATCH;
+        now = performance.now();
+    }
+    if (now - reportedAt >= REPORT_MS) report(now);
+    setTimeout(slice, Math.max(0, SLICE_MS - (now - start)));
+};
+
+// The pool stops a worker by terminating it
+self.addEventListener('message', (event: MessageEvent<HashWorkerCommand>) => {
+    const command = event.data;
+    dutyCycle = Math.min(1, Math.max(0, command.dutyCycle));
+    if (command.type === 'challenge') {
+        // Work under the old challenge can no longer be claimed
+        if (running) report(performance.now());
+        challenge = command.challenge || 0;
+        return;
+    }
+    if (command.type !== 'start' || running) return;
+    running = true;
+    challenge = command.challenge || 0;
+    nonce = command.start || 0;
+    reportedAt = performance.now();
+    slice();
+});
@@ -0,0 +1,146 @@
+/**
+ * Realtime Client
+ * The tab's one socket.io connection, shared by every panel through RealtimeProvider.
+ *
+ * - Reconnects forever with exponential backoff (1s doubling up to 30s between tries)
+ * - Binds the connection to the wallet session after every connect (see session.ts)
+ * - Holds events emitted while offline, or before sign-in finished, and sends them in
+ *   order once the connection is back
+ * - Publishes a connection status that components can subscribe to
+ */
+
+import { io, Socket } from 'socket.io-client';
+import { authenticateSocket, hasSessionWallet } from './session';
+import type { ClientToServerEvents, ServerToClientEvents } from '../shared/protocol';
+
+export type ConnectionState = 'offline' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface ConnectionStatus {
+    state: ConnectionState;
+    // Reconnect attempts since the connection was lost
+    attempt: number;
+    // Bumped every time a (re)connection is ready; the server forgets room joins and
+    // subscriptions with the old connection, so panels redo them when this changes
+    generation: number;
+    // Events waiting to be sent
+    queued: number;
+}
+
+type ServerEvent = keyof ServerToClientEvents;
+type ClientEvent = keyof ClientToServerEvents;
+type QueuedEvent = { event: ClientEvent; args: unknown[] };
+
+export interface RealtimeClient {
+    open(): void;
+    close(): void;
+    // Drops the connection and opens a new one, e.g. after the wallet changes
+    reconnect(): void;
+    getStatus(): ConnectionStatus;
+    subscribeStatus(listener: () => void): () => void;
+    on<E extends ServerEvent>(event: E, handler: ServerToClientEvents[E]): () => void;
+    // Sent right away when connected, queued otherwise
+    emit<E extends ClientEvent>(event: E, ...args: Parameters<ClientToServerEvents[E]>): void;
+}
+
+// Oldest events are dropped past this, so a long outage cannot pile up unbounded work
+const MAX_QUEUED = 50;
+
+export function createRealtimeClient(url: string): RealtimeClient {
+    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(url, {
+        autoConnect: false,
+        reconnectionAttempts: Infinity,
+        reconnectionDelay: 1000,
+        reconnectionDelayMax: 30 * 1000,
+        randomizationFactor: 0.5,
+    });
+
+    let status: ConnectionStatus = { state: 'offline', attempt: 0, generation: 0, queued: 0 };
+    const listeners = new Set<() => void>();
+    const queue: QueuedEvent[] = [];
+    let ready = false;
+    let wanted = false;
+
+    const setStatus = (changes: Partial<ConnectionStatus>) => {
+        status = { ...status, ...changes, queued: queue.length };
+        listeners.forEach(listener => listener());
+    };
+
+    const send = ({ event, args }: QueuedEvent) => {
+        (socket.emit as (event: string, ...args: unknown[]) => void)(event, ...args);
+    };
+
+    const flush = () => {
+        while (ready && socket.connected && queue.length) send(queue.shift()!);
+        setStatus({});
+    };
+
+    socket.on('connect', async () => {
+        ready = false;
+        setStatus({ state: 'connected', attempt: 0 });
+        // Signed-out tabs stay connected for the public events
+        if (hasSessionWallet()) await authenticateSocket(socket);
+        if (!socket.connected) return;
+        ready = true;
+        setStatus({ generation: status.generation + 1 });
+        flush();
+    });
+
+    socket.on('disconnect', (reason) => {
+        ready = false;
+        // A server-side disconnect is not retried by socket.io itself
+        if (reason === 'io server disconnect' && wanted) socket.connect();
+        setStatus({ state: wanted ? 'reconnecting' : 'offline' });
+    });
+
+    socket.io.on('reconnect_attempt', (attempt) => setStatus({ state: 'reconnecting', attempt }));
+    // A payload the server refused is a bug on this side; the event was dropped
+    socket.on('protocol_error', ({ message, issues }) => {
+        console.error(`Realtime: ${message}`, issues);
+    });
+
+    return {
+        open() {
+            if (!url || wanted) return;
+            wanted = true;
+            setStatus({ state: 'connecting' });
+            socket.connect();
+        },
+
+        close() {
+            wanted = false;
+            ready = false;
+            socket.disconnect();
+            setStatus({ state: 'offline', attempt: 0 });
+        },
+
+        reconnect() {
+            if (!wanted) return;
+            ready = false;
+            socket.disconnect();
+            setStatus({ state: 'connecting' });
+            socket.connect();
+        },
+
+        getStatus: () => status,
+
+        subscribeStatus(listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        on(event, handler) {
+            socket.on(event, handler as never);
+            return () => { socket.off(event, handler as never); };
+        },
+
+        emit(event, ...args) {
+            if (ready && socket.connected) {
+                send({ event, args });
+                return;
+            }
+            queue.push({ event, args });
+            if (queue.length > MAX_QUEUED) queue.shift();
+            setStatus({});
+        },
+    };
+}
@@ -0,0 +1,135 @@
+/**
+ * Server Session
+ * Signs the server's login challenge with the local wallet and keeps the resulting
+ * session token for authenticated REST calls and socket connections.
+ */
+
+import type { Socket } from 'socket.io-client';
+import { apiRequest, ApiError } from './api';
+import { WalletData, signMessage } from './solanaWallet';
+
+interface ChallengeResponse {
+    nonce: string;
+    message: string;
+}
+
+interface SessionResponse {
+    token: string;
+    address: string;
+    expiresAt: number;
+}
+
+let currentWallet: WalletData | null = null;
+let session: SessionResponse | null = null;
+let pendingLogin: Promise<string> | null = null;
+
+type RequestOptions = { method?: 'GET' | 'POST'; body?: unknown };
+
+const authorizedRequest = <T>(path: string, token: string, options: RequestOptions) =>
+    apiRequest<T>(path, { ...options, headers: { Authorization: `Bearer ${token}` } });
+
+const hasValidSession = () =>
+    !!session && !!currentWallet && session.address === currentWallet.publicKey && session.expiresAt > Date.now();
+
+/**
+ * Sets the wallet used to sign in; pass null on logout
+ */
+export function setSessionWallet(wallet: WalletData | null): void {
+    if (wallet?.publicKey === currentWallet?.publicKey) return;
+
+    // Revoke the old session server-side; failures only leave it to expire
+    if (!wallet && session) {
+        authorizedRequest('/api/auth/logout', session.token, { method: 'POST', body: {} }).catch(() => { });
+    }
+
+    currentWallet = wallet;
+    session = null;
+    pendingLogin = null;
+}
+
+/**
+ * Whether a wallet is loaded to sign in with
+ */
+export function hasSessionWallet(): boolean {
+    return !!currentWallet;
+}
+
+const login = async (wallet: WalletData): Promise<string> => {
+    const challenge = await apiRequest<ChallengeResponse>('/api/auth/challenge', {
+        method: 'POST',
+        body: { address: wallet.publicKey }
+    });
+
+    const result = await apiRequest<SessionResponse>('/api/auth/verify', {
+        method: 'POST',
+        body: {
+            address: wallet.publicKey,
+            nonce: challenge.nonce,
+            signature: signMessage(wallet, challenge.message)
+        }
+    });
+
+    // Ignore the result if the user switched wallets mid-login
+    if (currentWallet !== wallet) throw new ApiError('Wallet changed during sign-in', 0);
+    session = result;
+    return result.token;
+};
+
+/**
+ * Returns a valid session token, signing in first if needed
+ */
+export function getSessionToken(): Promise<string> {
+    if (!currentWallet) return Promise.reject(new ApiError('No wallet loaded', 401));
+    if (hasValidSession()) return Promise.resolve(session!.token);
+
+    if (!pendingLogin) {
+        const attempt = login(currentWallet).finally(() => {
+            if (pendingLogin === attempt) pendingLogin = null;
+        });
+        pendingLogin = attempt;
+    }
+    return pendingLogin;
+}
+
+/**
+ * Drops the cached token so the next call signs in again
+ */
+export function clearSessionToken(): void {
+    session = null;
+}
+
+/**
+ * Sends an authenticated JSON request
+ * Signs in again once if the server reports the session as expired
+ */
+export async function authRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const token = await getSessionToken();
+    try {
+        return await authorizedRequest<T>(path, token, options);
+    } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 401) throw error;
+        clearSessionToken();
+        return authorizedRequest<T>(path, await getSessionToken(), options);
+    }
+}
+
+/**
+ * Binds a socket connection to the current session
+ * Call on every 'connect'; retries once with a fresh token if the server rejects it
+ */
+export async function authenticateSocket(socket: Socket): Promise<boolean> {
+    const attempt = async () => {
+        const token = await getSessionToken();
+        const result: { success: boolean } = await socket.emitWithAck('authenticate', { token });
+        return result.success;
+    };
+
+    try {
+        if (await attempt()) return true;
+        clearSessionToken();
+        return await attempt();
+    } catch (error) {
+        console.error('Socket authentication failed', error);
+        return false;
+    }
+}
@@ -4,6 +4,7 @@
  */
 
 import { Keypair, Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
 
 export interface WalletData {
     publicKey: string;
@@ -120,6 +121,16 @@ export function restoreWalletFromPrivateKey(privateKeyBase58: string): WalletDat
     };
 }
 
+/**
+ * Signs a UTF-8 message with the wallet's keypair
+ * Returns the detached ed25519 signature as Base58
+ */
+export function signMessage(wallet: WalletData, message: string): string {
+    const keypair = Keypair.fromSecretKey(wallet.secretKey);
+    const signature = nacl.sign.detached(new TextEncoder().encode(message), keypair.secretKey);
+    return encodeBase58(signature);
+}
+
 /**
  * Gets the SOL balance of a wallet (mainnet via Helius)
  */